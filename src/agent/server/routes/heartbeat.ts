@@ -1,6 +1,8 @@
 import express from 'express';
 import { DatabaseService } from '../../../server/services/databaseService';
 import { JwtService } from '../services/jwtService';
+import { normalizePlatformString } from '../../../shared/platform';
+import { AgentHeartbeatContainer, AgentHeartbeatRequest } from '../../shared/types';
 
 const router = express.Router();
 
@@ -23,13 +25,28 @@ router.post('/heartbeat', async (req, res) => {
       return res.status(401).json({ error: 'Invalid or expired token' });
     }
 
-    const { containers, status = 'online' } = req.body;
+    const { containers, status = 'online', platform } = req.body as AgentHeartbeatRequest;
 
     // Validate request data
     if (!Array.isArray(containers)) {
       return res.status(400).json({ error: 'Containers must be an array' });
     }
 
+    // Host platform (e.g. "linux/aarch64" from uname) and per-container platforms are optional;
+    // unrecognized values are ignored so older agents keep working
+    const safePlatform = (value: unknown) => {
+      try {
+        return typeof value === 'string' ? normalizePlatformString(value) : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+    const hostPlatform = safePlatform(platform);
+    const monitoredContainers = containers.map((container: AgentHeartbeatContainer) => ({
+      ...container,
+      platform: safePlatform(container?.platform),
+    }));
+
     // Update agent status
     await DatabaseService.setAgentStatus(agentId, status);
     await DatabaseService.touchAgentLastSeen(agentId);
@@ -38,7 +55,7 @@ router.post('/heartbeat', async (req, res) => {
     await DatabaseService.updateAgentContainers(agentId, containers);
 
     // Create monitored containers for new imagePath+agentId combinations
-    await DatabaseService.createMonitoredContainersFromAgent(agentId, containers);
+    await DatabaseService.createMonitoredContainersFromAgent(agentId, monitoredContainers, hostPlatform);
 
     // Get current agent configuration to send back to agent
     const agentConfig = await DatabaseService.getAgentConfig();
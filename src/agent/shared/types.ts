@@ -22,5 +22,18 @@ export interface CreateAgentResponse {
   envContent?: string;
 }
 
+// Containers an agent reports with each heartbeat
+export interface AgentHeartbeatContainer {
+  id: string;
+  name: string;
+  image: string;
+  tag?: string;
+  status: string;
+  platform?: string; // e.g. "linux/arm64/v8"; the image's platform when the agent knows it
+}
 
-
+export interface AgentHeartbeatRequest {
+  containers: AgentHeartbeatContainer[];
+  status?: 'online' | 'offline';
+  platform?: string; // Host platform, e.g. "linux/aarch64" from uname; monitored containers default to it
+}
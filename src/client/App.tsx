@@ -8,6 +8,7 @@ import { GettingStarted } from './pages/GettingStarted';
 import { Settings } from './pages/Settings';
 import { Notifications as NotificationsPage } from './pages/Notifications';
 import { Agents } from './pages/Agents';
+import { RunHistory } from './pages/RunHistory';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { CheckProvider } from './contexts/CheckContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
@@ -33,7 +34,7 @@ function AppContent() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [activePage, setActivePage] = useState('getting-started');
-  const [settingsInitialTab, setSettingsInitialTab] = useState<'general' | 'notifications' | 'authentication'>('general');
+  const [settingsInitialTab, setSettingsInitialTab] = useState<'general' | 'notifications' | 'registries' | 'authentication'>('general');
   const [dashboardInitialModal, setDashboardInitialModal] = useState<'add' | 'bulk-import' | undefined>(undefined);
 
 
@@ -208,19 +209,15 @@ function AppContent() {
     }
   };
 
-  const handleCheckRegistry = async () => {
+  // A check job finished (here or in another browser): pick up the new states and notifications
+  const handleCheckFinished = async () => {
     try {
-      const response = await authenticatedFetch('/api/registry/check', {
-        method: 'POST',
-      });
+      const [statesRes, notificationsRes] = await Promise.all([
+        authenticatedFetch('/api/registry/states'),
+        authenticatedFetch('/api/notifications'),
+      ]);
 
-      if (response.ok) {
-        // Refresh data after check
-        const [statesRes, notificationsRes] = await Promise.all([
-          authenticatedFetch('/api/registry/states'),
-          authenticatedFetch('/api/notifications'),
-        ]);
-        
+      if (statesRes.ok && notificationsRes.ok) {
         const [statesData, notificationsData] = await Promise.all([
           statesRes.json(),
           notificationsRes.json(),
@@ -228,14 +225,9 @@ function AppContent() {
 
         setContainerStates(statesData);
         setNotifications(notificationsData);
-        return true;
-      } else {
-        const error = await response.json();
-        throw new Error(error.error);
       }
     } catch (error) {
-      console.error('Error checking registry:', error);
-      throw error;
+      console.error('Error refreshing after registry check:', error);
     }
   };
 
@@ -406,6 +398,10 @@ function AppContent() {
         return (
           <Agents />
         );
+      case 'runs':
+        return (
+          <RunHistory />
+        );
       case 'containers':
         return (
           <Containers
@@ -414,7 +410,6 @@ function AppContent() {
             onAddContainer={async (container: ContainerRegistry) => { await handleAddContainer(container); }}
             onUpdateContainer={async (index: number, container: ContainerRegistry) => { await handleUpdateContainer(index, container); }}
             onDeleteContainer={async (index: number) => { await handleDeleteContainer(index); }}
-            onCheckRegistry={async () => { await handleCheckRegistry(); }}
             onRefreshContainerStates={async () => { await refreshContainerStates(); }}
           />
         );
@@ -457,7 +452,6 @@ function AppContent() {
             containers={containers}
             containerStates={containerStates}
             notifications={notifications}
-            onCheckRegistry={async () => { await handleCheckRegistry(); }}
             onRefreshContainerStates={async () => { await refreshContainerStates(); }}
             onAddContainer={async (container: ContainerRegistry) => { await handleAddContainer(container); }}
             onUpdateContainer={async (index: number, container: ContainerRegistry) => { await handleUpdateContainer(index, container); }}
@@ -493,7 +487,7 @@ function AppContent() {
 
   return (
     <ThemeProvider>
-      <CheckProvider>
+      <CheckProvider onCheckFinished={() => { handleCheckFinished(); }}>
         <Router>
           <AppLayout
             activePage={activePage}
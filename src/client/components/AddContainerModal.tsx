@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { X, Plus } from 'lucide-react';
-import { ContainerRegistry } from '../types';
+import { ContainerRegistry, UpdatePolicy, VersionScheme } from '../types';
+import { normalizePlatformString } from '../../shared/platform';
+import { normalizeTagPattern } from '../../shared/tagPattern';
 
 interface AddContainerModalProps {
   isOpen: boolean;
@@ -13,6 +15,7 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
     name: '',
     imagePath: '',
     tag: '',
+    platform: '',
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -26,6 +29,16 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
       return;
     }
 
+    let platform: string | undefined;
+    let tagPattern: string | undefined;
+    try {
+      platform = normalizePlatformString(formData.platform);
+      tagPattern = normalizeTagPattern(formData.tagPattern);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid platform or tag pattern');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -33,7 +46,9 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
       // Set default tag if not provided
       const containerData = {
         ...formData,
-        tag: formData.tag || 'latest'
+        tag: formData.tag || 'latest',
+        platform,
+        tagPattern
       };
       
       await onAdd(containerData);
@@ -41,6 +56,7 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
         name: '',
         imagePath: '',
         tag: '',
+        platform: '',
       });
       onClose();
     } catch (err) {
@@ -55,6 +71,7 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
       name: '',
       imagePath: '',
       tag: '',
+      platform: '',
     });
     setError(null);
     onClose();
@@ -152,6 +169,95 @@ export function AddContainerModal({ isOpen, onClose, onAdd }: AddContainerModalP
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Platform (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.platform}
+              onChange={(e) => setFormData({ ...formData, platform: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+              placeholder="e.g., linux/arm64, linux/arm/v7 (defaults to linux/amd64)"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Version Scheme
+            </label>
+            <select
+              value={formData.versionScheme || 'semver'}
+              onChange={(e) => setFormData({ ...formData, versionScheme: e.target.value as VersionScheme })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="semver">Semantic version (1.2.3)</option>
+              <option value="calver">Calendar version (2024.10.1, 24.04)</option>
+              <option value="date">Date stamp (20241019, 20241019-1)</option>
+              <option value="build">Build number (1234)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Update Policy
+            </label>
+            <select
+              value={formData.updatePolicy || 'any'}
+              onChange={(e) => setFormData({ ...formData, updatePolicy: e.target.value as UpdatePolicy })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="any">Any newer version</option>
+              <option value="minor">Minor and patch releases only</option>
+              <option value="patch">Patch releases only</option>
+            </select>
+            <label className="flex items-center space-x-2 mt-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={formData.includePrerelease || false}
+                onChange={(e) => setFormData({ ...formData, includePrerelease: e.target.checked })}
+                className="rounded border-input"
+              />
+              <span>Include prereleases (e.g., 2.0.0-rc.1)</span>
+            </label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Applies to semantic and calendar versions
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Tag Pattern (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.tagPattern || ''}
+              onChange={(e) => setFormData({ ...formData, tagPattern: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono"
+              placeholder="e.g., *-alpine or ^(\d+)\.(\d+)\.(\d+)-alpine$"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Newer tags must match this glob or regex, so suggestions stay in the same variant (e.g., -alpine)
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Cosign Public Key (optional)
+            </label>
+            <textarea
+              value={formData.cosignPublicKey || ''}
+              onChange={(e) => setFormData({ ...formData, cosignPublicKey: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-xs"
+              placeholder="-----BEGIN PUBLIC KEY-----"
+              spellCheck={false}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              New digests are checked for a cosign signature made with this key; overrides the registry's signing key
+            </p>
+          </div>
+
           {error && (
             <div className="text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md p-2">
               {error}
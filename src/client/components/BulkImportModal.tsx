@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { ContainerRegistry } from '../types';
+import { validateImageReference } from '../../shared/imageReference';
 import { X, Upload, CheckCircle, AlertCircle, Copy, Download, FileText, Terminal, Code } from 'lucide-react';
 
 interface BulkImportModalProps {
@@ -12,6 +13,7 @@ interface BulkImportModalProps {
 interface ParsedContainer {
   imagePath: string;
   tag: string;
+  digest?: string;
   isValid: boolean;
   error?: string;
   source?: 'docker-compose' | 'docker-command' | 'dockerfile' | 'line';
@@ -20,90 +22,6 @@ interface ParsedContainer {
 
 // Enhanced parsing utilities
 class ContainerParser {
-  // Image path validation regex - supports various registry formats
-  private static readonly IMAGE_PATH_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?(\/[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?)*$/;
-  
-  // Registry domain regex
-  private static readonly REGISTRY_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9.-]*[a-zA-Z0-9])?$/;
-  
-  // Tag validation regex
-  private static readonly TAG_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?$/;
-
-  // Validate image path format
-  static validateImagePath(imagePath: string): { isValid: boolean; error?: string } {
-    if (!imagePath || imagePath.trim().length === 0) {
-      return { isValid: false, error: 'Image path cannot be empty' };
-    }
-
-    if (imagePath.length < 2) {
-      return { isValid: false, error: 'Image path too short' };
-    }
-
-    if (imagePath.length > 255) {
-      return { isValid: false, error: 'Image path too long (max 255 characters)' };
-    }
-
-    // Check for invalid characters
-    if (/[\s@]/.test(imagePath)) {
-      return { isValid: false, error: 'Image path contains invalid characters (spaces or @)' };
-    }
-
-    // Check for consecutive dots or slashes
-    if (/\.{2,}|\/{2,}/.test(imagePath)) {
-      return { isValid: false, error: 'Image path contains consecutive dots or slashes' };
-    }
-
-    // Check for leading/trailing slashes
-    if (imagePath.startsWith('/') || imagePath.endsWith('/')) {
-      return { isValid: false, error: 'Image path cannot start or end with slash' };
-    }
-
-    // Split into registry and repository parts
-    const parts = imagePath.split('/');
-    if (parts.length === 0) {
-      return { isValid: false, error: 'Invalid image path format' };
-    }
-
-    // Validate registry part (first part if it contains dots or is a known registry)
-    const firstPart = parts[0];
-    if (firstPart.includes('.') || ['docker.io', 'ghcr.io', 'quay.io', 'lscr.io'].includes(firstPart)) {
-      if (!this.REGISTRY_REGEX.test(firstPart)) {
-        return { isValid: false, error: 'Invalid registry domain format' };
-      }
-    } else if (parts.length > 1) {
-      // If no registry specified, first part should be a valid repository name
-      if (!this.IMAGE_PATH_REGEX.test(firstPart)) {
-        return { isValid: false, error: 'Invalid repository name format' };
-      }
-    }
-
-    // Validate repository parts
-    for (let i = 1; i < parts.length; i++) {
-      if (!this.IMAGE_PATH_REGEX.test(parts[i])) {
-        return { isValid: false, error: `Invalid repository part: ${parts[i]}` };
-      }
-    }
-
-    return { isValid: true };
-  }
-
-  // Validate tag format
-  static validateTag(tag: string): { isValid: boolean; error?: string } {
-    if (!tag || tag === 'latest') {
-      return { isValid: true };
-    }
-
-    if (tag.length > 128) {
-      return { isValid: false, error: 'Tag too long (max 128 characters)' };
-    }
-
-    if (!this.TAG_REGEX.test(tag)) {
-      return { isValid: false, error: 'Invalid tag format' };
-    }
-
-    return { isValid: true };
-  }
-
   // Parse docker-compose content
   static parseDockerCompose(content: string): ParsedContainer[] {
     const containers: ParsedContainer[] = [];
@@ -164,7 +82,7 @@ class ContainerParser {
   static parseDockerCommands(content: string): ParsedContainer[] {
     const containers: ParsedContainer[] = [];
     // More flexible regex to capture image names from docker run commands
-    const dockerRunRegex = /(?:docker|podman)\s+run\s+(?:[^]*?\s)?([a-zA-Z0-9][a-zA-Z0-9._/-]*[a-zA-Z0-9](?::[a-zA-Z0-9][a-zA-Z0-9._-]*)?)/g;
+    const dockerRunRegex = /(?:docker|podman)\s+run\s+(?:[^]*?\s)?([a-zA-Z0-9][a-zA-Z0-9._/:-]*[a-zA-Z0-9](?:@[a-zA-Z0-9+._-]+:[a-fA-F0-9]+)?)/g;
     
     let match;
     while ((match = dockerRunRegex.exec(content)) !== null) {
@@ -219,38 +137,25 @@ class ContainerParser {
       .replace(/^image\s*:\s*/i, '') // remove leading "image:" if present
       .trim();
 
-    // Handle digest format (ignore digest, use latest tag)
-    let imagePath = normalized;
-    let tag = 'latest';
-
-    if (normalized.includes('@')) {
-      // Remove digest part
-      imagePath = normalized.split('@')[0];
-    } else if (normalized.includes(':')) {
-      // Extract tag
-      const lastColonIndex = normalized.lastIndexOf(':');
-      const potentialTag = normalized.substring(lastColonIndex + 1);
-      
-      // Check if this looks like a tag (not a port or path)
-      if (potentialTag && !potentialTag.includes('/') && potentialTag.match(/^[a-zA-Z0-9._-]+$/)) {
-        imagePath = normalized.substring(0, lastColonIndex);
-        tag = potentialTag;
-      }
+    // Parse using the same reference grammar as the server (host:port, nested paths, tag, digest)
+    const result = validateImageReference(normalized);
+    if (!result.isValid || !result.reference) {
+      return {
+        imagePath: normalized,
+        tag: 'latest',
+        isValid: false,
+        error: result.error,
+        source,
+        originalLine
+      };
     }
 
-    // Validate image path and tag
-    const pathValidation = this.validateImagePath(imagePath);
-    const tagValidation = this.validateTag(tag);
-
-    const isValid = pathValidation.isValid && tagValidation.isValid;
-    const error = !pathValidation.isValid ? pathValidation.error : 
-                  !tagValidation.isValid ? tagValidation.error : undefined;
-
+    // The tag (or latest) is polled; a digest pins the baseline
     return {
-      imagePath,
-      tag,
-      isValid,
-      error,
+      imagePath: result.reference.name,
+      tag: result.reference.tag || 'latest',
+      digest: result.reference.digest,
+      isValid: true,
       source,
       originalLine
     };
@@ -363,7 +268,8 @@ export const BulkImportModal: React.FC<BulkImportModalProps> = ({
       const containers: ContainerRegistry[] = validContainers.map(c => ({
         name: c.imagePath.split('/').pop() || c.imagePath,
         imagePath: c.imagePath,
-        tag: c.tag
+        tag: c.tag,
+        digest: c.digest
       }));
 
       const result = await onImport(containers);
@@ -503,7 +409,7 @@ export const BulkImportModal: React.FC<BulkImportModalProps> = ({
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center space-x-2">
                               <span className="font-mono text-sm font-medium">
-                                {container.imagePath}:{container.tag}
+                                {container.imagePath}:{container.tag}{container.digest ? `@${container.digest.substring(0, 19)}…` : ''}
                               </span>
                               {container.source && container.source !== 'line' && (
                                 <span className={`text-xs px-2 py-0.5 rounded-full ${
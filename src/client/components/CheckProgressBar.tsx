@@ -41,7 +41,9 @@ export function CheckProgressBar() {
             <div className="w-80">
               <div className="flex items-center space-x-2">
                 <span className="text-sm font-medium whitespace-nowrap">
-                  Checking {progress.current} of {progress.total} images
+                  {progress.isCancelling
+                    ? `Cancelling after ${progress.current} of ${progress.total} images`
+                    : `Checking ${progress.current} of ${progress.total} images`}
                 </span>
                 {progress.currentContainer && (
                   <span className="text-xs opacity-75 truncate flex-1 min-w-0">
@@ -65,8 +67,9 @@ export function CheckProgressBar() {
           <div className="flex items-center space-x-3">
             <button
               onClick={cancelCheck}
-              className="p-1 hover:bg-primary-foreground/20 rounded transition-colors"
-              title="Cancel check"
+              disabled={progress.isCancelling}
+              className="p-1 hover:bg-primary-foreground/20 rounded transition-colors disabled:opacity-50"
+              title={progress.isCancelling ? 'Waiting for running checks to finish' : 'Cancel check'}
             >
               <X className="h-4 w-4" />
             </button>
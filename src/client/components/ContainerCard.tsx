@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import { RefreshCw, Trash2, Edit, CheckCircle, AlertCircle, Clock, X } from 'lucide-react';
-import { ContainerRegistry, ContainerState } from '../types';
+import { ContainerRegistry, ContainerState, UpdatePolicy, VersionScheme, getPinnedStatusText } from '../types';
+import { isSamePlatformTarget, platformLabel } from '../../shared/platform';
+import { DigestTimeline } from './DigestTimeline';
+import { ImageMetadataInfo } from './ImageMetadataInfo';
+import { ReferrersInfo } from './ReferrersInfo';
+import { ReleaseNotesInfo } from './ReleaseNotesInfo';
+import { SignatureBadge } from './SignatureBadge';
+import { VulnerabilityInfo } from './VulnerabilityInfo';
+import { WhatChanged } from './WhatChanged';
 
 interface ContainerCardProps {
   container: ContainerRegistry;
@@ -30,16 +38,6 @@ export function ContainerCard({
     return trimmed.startsWith('sha256:') ? trimmed.substring(7) : trimmed;
   };
 
-
-  // Helper function to check if a tag is a v-prefixed versioned tag (like v1.2.3) or has additional characters after semantic version (like 0.1.0-beta.4)
-  const isVPrefixedVersionedTag = (tag: string): boolean => {
-    // Match v-prefixed versions like v1.2.3
-    const vPrefixedPattern = /^v\d+\.\d+\.\d+/;
-    // Match versions with additional characters after semantic version like 0.1.0-beta.4, 1.2.3-rc.1, etc.
-    const extendedVersionPattern = /^\d+\.\d+\.\d+[^0-9]/;
-    return vPrefixedPattern.test(tag) || extendedVersionPattern.test(tag);
-  };
-
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<ContainerRegistry>({
     ...container,
@@ -111,13 +109,13 @@ export function ContainerCard({
     
     // Error or unsupported status
     if (containerState.error || containerState.statusMessage) {
-      return 'check image and tag and try again';
+      return containerState.statusMessage || 'check image and tag and try again';
     }
     
     // Note: Do not use an interim "new image" status after first check; show normal statuses instead
     
     if ((containerState.hasUpdate || containerState.hasNewerTag) && !containerState.updateAcknowledged) {
-      return 'Update Available';
+      return getPinnedStatusText(containerState) || 'Update Available';
     }
     
     return 'Up to date';
@@ -175,7 +173,10 @@ export function ContainerCard({
           </div>
           <div>
             <h3 className="font-bold text-lg text-foreground">{container.name}</h3>
-            <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor()}`}>
+            <div
+              className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor()}`}
+              title={containerState?.error ? containerState.errorDetail : undefined}
+            >
               {getStatusText()}
             </div>
             {/* Subtle age sub-label when up to date */}
@@ -298,6 +299,105 @@ export function ContainerCard({
               placeholder="defaults to 'latest' if empty"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Platform (optional)
+            </label>
+            <input
+              type="text"
+              value={editData.platform || ''}
+              onChange={(e) => setEditData({ ...editData, platform: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+              placeholder="e.g., linux/arm64 (defaults to linux/amd64)"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Pinned digest (optional)
+            </label>
+            <input
+              type="text"
+              value={editData.digest || ''}
+              onChange={(e) => setEditData({ ...editData, digest: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono"
+              placeholder="sha256:... (the tag is still polled; the pin is the baseline)"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Version Scheme
+            </label>
+            <select
+              value={editData.versionScheme || 'semver'}
+              onChange={(e) => setEditData({ ...editData, versionScheme: e.target.value as VersionScheme })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="semver">Semantic version (1.2.3)</option>
+              <option value="calver">Calendar version (2024.10.1, 24.04)</option>
+              <option value="date">Date stamp (20241019, 20241019-1)</option>
+              <option value="build">Build number (1234)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Update Policy
+            </label>
+            <select
+              value={editData.updatePolicy || 'any'}
+              onChange={(e) => setEditData({ ...editData, updatePolicy: e.target.value as UpdatePolicy })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            >
+              <option value="any">Any newer version</option>
+              <option value="minor">Minor and patch releases only</option>
+              <option value="patch">Patch releases only</option>
+            </select>
+            <label className="flex items-center space-x-2 mt-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={editData.includePrerelease || false}
+                onChange={(e) => setEditData({ ...editData, includePrerelease: e.target.checked })}
+                className="rounded border-input"
+              />
+              <span>Include prereleases</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Tag Pattern (optional)
+            </label>
+            <input
+              type="text"
+              value={editData.tagPattern || ''}
+              onChange={(e) => setEditData({ ...editData, tagPattern: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono"
+              placeholder="e.g., *-alpine or ^(\d+)\.(\d+)\.(\d+)-alpine$"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Newer tags must match this glob or regex, so suggestions stay in the same variant (e.g., -alpine)
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">
+              Cosign Public Key (optional)
+            </label>
+            <textarea
+              value={editData.cosignPublicKey || ''}
+              onChange={(e) => setEditData({ ...editData, cosignPublicKey: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-xs"
+              placeholder="-----BEGIN PUBLIC KEY-----"
+              spellCheck={false}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              New digests are checked for a cosign signature made with this key; overrides the registry's signing key
+            </p>
+          </div>
           
           <div className="flex space-x-2">
             <button
@@ -335,19 +435,35 @@ export function ContainerCard({
                 <div className="text-xs text-primary-foreground bg-primary px-2 py-1 rounded-full font-medium">
                   Tag: {container.tag || 'latest'}
                 </div>
+                {/* Target platform badge */}
+                {container.platform && (
+                  <div className="text-xs text-foreground bg-secondary px-2 py-1 rounded-full font-medium">
+                    {container.platform}
+                  </div>
+                )}
+                {/* Version scheme badge (the default semver is not shown) */}
+                {container.versionScheme && container.versionScheme !== 'semver' && (
+                  <div className="text-xs text-foreground bg-secondary px-2 py-1 rounded-full font-medium">
+                    {{ calver: 'CalVer', date: 'Date tags', build: 'Build numbers' }[container.versionScheme]}
+                  </div>
+                )}
+                {/* Update policy badge (the default 'any' is not shown) */}
+                {(container.updatePolicy === 'patch' || container.updatePolicy === 'minor') && (
+                  <div className="text-xs text-foreground bg-secondary px-2 py-1 rounded-full font-medium" title="Only these semver bumps are reported as newer tags">
+                    {container.updatePolicy === 'patch' ? 'Patch only' : 'Minor + patch'}{container.includePrerelease ? ' + pre' : ''}
+                  </div>
+                )}
               </div>
             </div>
             <div className="font-mono text-sm text-foreground break-all">
               {container.imagePath}:{container.tag || 'latest'}
+              {container.digest && (
+                <span className="text-muted-foreground" title={container.digest}>@{container.digest.substring(0, 19)}…</span>
+              )}
             </div>
-            {isVPrefixedVersionedTag(container.tag || 'latest') && (
-              <div className="mt-2 p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md">
-                <div className="flex items-start gap-2">
-                  <div className="text-blue-600 dark:text-blue-400 text-sm">💡</div>
-                  <div className="text-xs text-blue-700 dark:text-blue-300">
-                    <strong>Warning:</strong> Consider monitoring the <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">latest</code> tag instead of version-specific tags like <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{container.tag || 'latest'}</code> to ensure automatic update notifications when new versions are released. Tags like 3.2.1 will work just fine, and version specific tags like <code className="bg-blue-100 dark:bg-blue-800 px-1 rounded">{container.tag || 'latest'}</code> will be addressed in future releases.
-                  </div>
-                </div>
+            {container.tagPattern && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Tag pattern: <code className="bg-muted px-1 rounded">{container.tagPattern}</code>
               </div>
             )}
             {(containerState && (containerState.currentSha || containerState.latestSha)) && (() => {
@@ -358,12 +474,36 @@ export function ContainerCard({
                 <div className="text-xs text-muted-foreground mt-2 flex flex-col gap-1">
                   {containerState?.currentSha && (
                     <div title={normalizeSha(containerState.currentSha)}>
-                      <span className="font-medium">Monitored SHA for {container.tag || 'latest'}:</span> {currentPrefix}
+                      <span className="font-medium">{containerState.pinnedDigest ? 'Pinned digest' : `Monitored SHA for ${container.tag || 'latest'}`}:</span> {currentPrefix}
                     </div>
                   )}
                   {containerState?.latestSha && (
-                    <div title={normalizeSha(containerState.latestSha)}>
-                      <span className="font-medium">Registry SHA for {container.tag || 'latest'}:</span> {latestPrefix}
+                    <div className="flex items-center gap-2" title={normalizeSha(containerState.latestSha)}>
+                      <span><span className="font-medium">Registry SHA for {container.tag || 'latest'}:</span> {latestPrefix}</span>
+                      {containerState.signature && <SignatureBadge signature={containerState.signature} />}
+                    </div>
+                  )}
+                  {containerState?.platformDigests && Object.keys(containerState.platformDigests).length > 1 && (
+                    <div className="mt-1">
+                      <div className="font-medium">
+                        Platform digests{containerState.indexDigest ? ` (index ${normalizeSha(containerState.indexDigest).substring(0, 12)})` : ''}:
+                      </div>
+                      {Object.entries(containerState.platformDigests).sort(([a], [b]) => a.localeCompare(b)).map(([platform, digest]) => {
+                        const changed = containerState.hasUpdate && containerState.changedPlatforms?.includes(platform);
+                        return (
+                          <div key={platform} className="flex items-center gap-2 font-mono" title={normalizeSha(digest)}>
+                            <span className={isSamePlatformTarget(platform, containerState.platform) ? 'text-foreground' : ''}>
+                              {platformLabel(platform)}
+                            </span>
+                            <span>{normalizeSha(digest).substring(0, 12)}</span>
+                            {changed && (
+                              <span className="font-sans text-orange-700 bg-orange-100 dark:text-orange-300 dark:bg-orange-900/20 px-1.5 rounded">
+                                rebuilt
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
@@ -392,6 +532,43 @@ export function ContainerCard({
             )}
           </div>
 
+          {containerState?.latestMetadata && (
+            <ImageMetadataInfo metadata={containerState.latestMetadata} />
+          )}
+
+          {containerState?.hasUpdate && containerState.currentSha && containerState.latestSha && normalizeSha(containerState.currentSha) !== normalizeSha(containerState.latestSha) && (
+            <WhatChanged
+              image={containerState.image}
+              tag={containerState.tag}
+              targetPlatform={containerState.targetPlatform}
+            />
+          )}
+
+          {containerState && containerState.lastChecked && (
+            <DigestTimeline
+              image={containerState.image}
+              tag={containerState.tag}
+              targetPlatform={containerState.targetPlatform}
+              currentSha={containerState.currentSha}
+            />
+          )}
+
+          {containerState?.releaseNotes && (containerState.hasUpdate || containerState.hasNewerTag) && (
+            <ReleaseNotesInfo releaseNotes={containerState.releaseNotes} />
+          )}
+
+          {containerState?.latestSha && (
+            <ReferrersInfo
+              image={containerState.image}
+              tag={containerState.tag}
+              targetPlatform={containerState.targetPlatform}
+            />
+          )}
+
+          {containerState?.vulnerabilities && containerState.hasUpdate && (
+            <VulnerabilityInfo vulnerabilities={containerState.vulnerabilities} />
+          )}
+
           {/* Latest version info (if available) */}
           {containerState && containerState.latestAvailableTag && containerState.latestAvailableTag !== containerState.tag && (
             <div className="bg-muted/50 border border-border/60 rounded-lg p-2">
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { RefreshCw, Trash2, Edit, CheckCircle, AlertCircle, Clock, X, ChevronUp, ChevronDown } from 'lucide-react';
-import { ContainerRegistry, ContainerState } from '../types';
+import { ContainerRegistry, ContainerState, findContainerState, getPinnedStatusText } from '../types';
+import { describePlatformChanges } from '../../shared/platform';
 import { ResponsiveTable } from './layout/ResponsiveTable';
 
 interface ContainerTableProps {
@@ -34,13 +35,11 @@ export function ContainerTable({
   const [selectedContainers, setSelectedContainers] = useState<Set<string>>(new Set());
 
   const getContainerState = (container: ContainerRegistry): ContainerState | undefined => {
-    return containerStates.find(state => 
-      state.image === container.imagePath && state.tag === (container.tag || 'latest')
-    );
+    return findContainerState(containerStates, container);
   };
 
   const getContainerKey = (container: ContainerRegistry): string => {
-    return `${container.imagePath}@@${container.tag || 'latest'}`;
+    return `${container.imagePath}@@${container.tag || 'latest'}@@${container.platform || ''}`;
   };
 
   // Helper function to check if dismiss button should be shown
@@ -85,13 +84,13 @@ export function ContainerTable({
     }
     
     if (containerState.error || containerState.statusMessage) {
-      return 'Error - check image and tag';
+      return containerState.statusMessage ? `Error - ${containerState.statusMessage}` : 'Error - check image and tag';
     }
     
     // Note: Do not use an interim "new image" status after first check; show normal statuses instead
     
     if ((containerState.hasUpdate || containerState.hasNewerTag) && !containerState.updateAcknowledged) {
-      return 'Update Available';
+      return getPinnedStatusText(containerState) || 'Update Available';
     }
     
     return 'Up to date';
@@ -385,6 +384,17 @@ export function ContainerTable({
                         {container.tag || 'latest'}
                       </span>
                     )}
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={editData?.platform || ''}
+                        onChange={(e) => setEditData({ ...editData!, platform: e.target.value })}
+                        className="w-full mt-1 px-2 py-1 border border-input rounded bg-background text-foreground text-xs sm:text-sm"
+                        placeholder="linux/amd64"
+                      />
+                    ) : container.platform && (
+                      <div className="text-xs text-muted-foreground">{container.platform}</div>
+                    )}
                   </td>
                   <td className="px-2 sm:px-4 py-3 sm:py-4 hidden sm:table-cell">
                     <div className="text-xs sm:text-sm text-foreground">
@@ -417,13 +427,31 @@ export function ContainerTable({
                   <td className="px-2 sm:px-4 py-3 sm:py-4">
                     <div className="flex items-center space-x-1 sm:space-x-2">
                       {getStatusIcon(containerState)}
-                      <span className={`text-xs sm:text-sm font-medium ${getStatusColor(containerState)}`}>
+                      <span
+                        className={`text-xs sm:text-sm font-medium ${getStatusColor(containerState)}`}
+                        title={containerState?.error ? containerState.errorDetail : undefined}
+                      >
                         {getStatusText(containerState)}
                       </span>
                     </div>
                     {containerState?.currentSha && (
                       <div className="text-xs text-muted-foreground font-mono mt-1">
-                        SHA: {containerState.currentSha.substring(0, 12)}...
+                        {containerState.pinnedDigest ? 'Pinned' : 'SHA'}: {containerState.currentSha.substring(0, 12)}...
+                      </div>
+                    )}
+                    {containerState?.platformDigests && Object.keys(containerState.platformDigests).length > 1 && (
+                      <div
+                        className="text-xs text-muted-foreground mt-1"
+                        title={Object.entries(containerState.platformDigests)
+                          .map(([platform, digest]) => `${platform}: ${digest.substring(0, 12)}`)
+                          .join('\n')}
+                      >
+                        {Object.keys(containerState.platformDigests).length} platforms
+                        {containerState.hasUpdate && containerState.changedPlatforms?.length ? (
+                          <span className="text-orange-600 dark:text-orange-400">
+                            {' · '}{describePlatformChanges(containerState.platformDigests, containerState.changedPlatforms)}
+                          </span>
+                        ) : null}
                       </div>
                     )}
                     {/* Show last checked info on mobile when hidden column */}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { DigestTimeline as DigestTimelineData } from '../types';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+
+interface DigestTimelineProps {
+  image: string;
+  tag: string;
+  targetPlatform?: string;
+  currentSha?: string; // Monitored digest, highlighted in the list
+}
+
+const shortDigest = (digest: string) => digest.replace(/^sha256:/, '').substring(0, 12);
+// Digests are stored as "sha256:<hex>"; state digests may lack the prefix
+const fullDigest = (digest: string) => {
+  const normalized = digest.trim().toLowerCase();
+  return normalized.startsWith('sha256:') ? normalized : `sha256:${normalized}`;
+};
+
+// Every distinct digest checks have seen for this image, loaded when expanded
+export function DigestTimeline({ image, tag, targetPlatform, currentSha }: DigestTimelineProps) {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeline, setTimeline] = useState<DigestTimelineData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ image, tag });
+      if (targetPlatform) params.set('platform', targetPlatform);
+      const response = await authenticatedFetch(`/api/registry/digests?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load digest history');
+      }
+      setTimeline(await response.json());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load digest history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const entries = timeline?.entries || [];
+  // Average time between digest changes, from the first-seen times
+  let changeInterval: string | null = null;
+  if (entries.length > 1) {
+    const newest = Date.parse(entries[0].firstSeen);
+    const oldest = Date.parse(entries[entries.length - 1].firstSeen);
+    const days = (newest - oldest) / (entries.length - 1) / (1000 * 60 * 60 * 24);
+    changeInterval = days >= 1 ? `${Math.round(days)} day${Math.round(days) === 1 ? '' : 's'}` : `${Math.max(1, Math.round(days * 24))}h`;
+  }
+  const monitored = currentSha ? fullDigest(currentSha) : '';
+
+  return (
+    <div className="border border-border/60 rounded-lg">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-between px-2 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+      >
+        <span className="flex items-center gap-1">
+          <History className="w-3.5 h-3.5" />
+          Digest history
+        </span>
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-2 pb-2 text-xs">
+          {loading && <div className="text-muted-foreground">Loading...</div>}
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+          {!loading && !error && entries.length === 0 && (
+            <div className="text-muted-foreground">No digests recorded yet; the next check starts the timeline.</div>
+          )}
+          {!loading && !error && entries.length > 0 && (
+            <>
+              <div className="text-muted-foreground mb-1">
+                {entries.length} digest{entries.length === 1 ? '' : 's'} since {new Date(entries[entries.length - 1].firstSeen).toLocaleDateString()}
+                {changeInterval && `, changing about every ${changeInterval}`}
+              </div>
+              <ul className="space-y-1">
+                {entries.map(entry => (
+                  <li key={entry.digest} className="flex flex-wrap items-center justify-between gap-x-2" title={entry.digest}>
+                    <span className="font-mono text-foreground">
+                      {shortDigest(entry.digest)}
+                      {monitored && (entry.digest === monitored || entry.indexDigest === monitored) && (
+                        <span className="ml-1 font-sans text-blue-700 bg-blue-100 dark:text-blue-300 dark:bg-blue-900/20 px-1.5 rounded">monitored</span>
+                      )}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {new Date(entry.firstSeen).toLocaleString()} – {new Date(entry.lastSeen).toLocaleString()}
+                      {entry.registryUpdated && ` (pushed ${new Date(entry.registryUpdated).toLocaleDateString()})`}
+                    </span>
+                    {entry.artifactTypes && entry.artifactTypes.length > 0 && (
+                      <span className="w-full font-mono text-muted-foreground break-all">
+                        Attached: {entry.artifactTypes.join(', ')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
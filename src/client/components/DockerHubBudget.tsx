@@ -0,0 +1,42 @@
+import { Gauge } from 'lucide-react';
+import { RateLimitStatus } from '../types';
+
+interface DockerHubBudgetProps {
+  status: RateLimitStatus;
+}
+
+// Docker Hub pull budget as last reported by the registry; shown once a response carried ratelimit headers
+export function DockerHubBudget({ status }: DockerHubBudgetProps) {
+  const budget = status.dockerHub;
+  if (!budget) return null;
+
+  const percent = budget.limit > 0 ? Math.round((budget.remaining / budget.limit) * 100) : 0;
+  const isLow = budget.remaining < status.threshold;
+  const windowHours = budget.windowSeconds ? Math.round(budget.windowSeconds / 3600) : undefined;
+  const barColor = isLow ? 'bg-red-500' : percent < 30 ? 'bg-orange-500' : 'bg-green-500';
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-5 h-5 text-primary" />
+          <span className="text-sm font-medium text-foreground">Docker Hub pull budget</span>
+          <span className="text-xs text-muted-foreground">
+            ({status.authenticated ? 'authenticated' : 'anonymous'}{windowHours ? `, ${windowHours}h window` : ''})
+          </span>
+        </div>
+        <span className={`text-sm font-semibold ${isLow ? 'text-red-600 dark:text-red-400' : 'text-foreground'}`}>
+          {budget.remaining} / {budget.limit} remaining
+        </span>
+      </div>
+      <div className="mt-2 h-2 w-full bg-muted rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+      <div className="mt-2 text-xs text-muted-foreground">
+        Scheduled checks defer Docker Hub images below {status.threshold} remaining pulls.
+        {status.deferred > 0 && ` ${status.deferred} image${status.deferred === 1 ? ' was' : 's were'} deferred to the next run.`}
+        {' '}Last read {new Date(budget.observedAt).toLocaleTimeString()}.
+      </div>
+    </div>
+  );
+}
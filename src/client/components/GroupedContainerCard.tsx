@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { ChevronDown, ChevronRight, Container, CheckCircle, AlertCircle, Clock } from 'lucide-react';
-import { ContainerRegistry, ContainerState } from '../types';
+import { ContainerRegistry, ContainerState, findContainerState, getPinnedStatusText } from '../types';
 
 interface GroupedContainerCardProps {
   containers: ContainerRegistry[];
@@ -29,9 +29,7 @@ export function GroupedContainerCard({
   const [isExpanded, setIsExpanded] = useState(false);
   
   const firstContainer = containers[0];
-  const containerState = containerStates.find(
-    state => state.image === firstContainer.imagePath && state.tag === (firstContainer.tag || 'latest')
-  );
+  const containerState = findContainerState(containerStates, firstContainer);
 
   const getStatusIcon = () => {
     if (!containerState) {
@@ -59,7 +57,7 @@ export function GroupedContainerCard({
     }
     
     if (containerState.hasUpdate || containerState.hasNewerTag) {
-      return 'Update Available';
+      return getPinnedStatusText(containerState) || 'Update Available';
     }
     
     return 'Up to Date';
@@ -138,9 +136,7 @@ export function GroupedContainerCard({
             {containers.map((container, index) => {
               const agentId = (container as any).source_agent_id;
               const agentName = getAgentName(agentId) || 'Local';
-              const individualState = containerStates.find(
-                state => state.image === container.imagePath && state.tag === (container.tag || 'latest')
-              );
+              const individualState = findContainerState(containerStates, container);
               
               return (
                 <div key={index} className="flex items-center justify-between p-2 bg-muted/30 rounded">
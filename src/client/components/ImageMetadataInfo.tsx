@@ -0,0 +1,77 @@
+import { ExternalLink } from 'lucide-react';
+import { ImageMetadata } from '../types';
+
+interface ImageMetadataInfoProps {
+  metadata: ImageMetadata;
+}
+
+export const formatSize = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+// Source links are only offered for http(s) URLs; labels are set by the image publisher
+const sourceUrl = (source?: string) => {
+  if (!source) return undefined;
+  const url = source.replace(/^git\+/, '').replace(/\.git$/, '');
+  return /^https?:\/\//.test(url) ? url : undefined;
+};
+
+// What the latest image's config says it is: "version 2.8.1 built from commit abc1234", plus build details
+export function ImageMetadataInfo({ metadata }: ImageMetadataInfoProps) {
+  const source = sourceUrl(metadata.source);
+  const shortRevision = metadata.revision && /^[0-9a-f]{8,}$/i.test(metadata.revision) ? metadata.revision.substring(0, 7) : metadata.revision;
+  const commitUrl = source && metadata.revision && /github\.com|gitlab\.com/.test(source) ? `${source}/commit/${metadata.revision}` : undefined;
+
+  const details = [
+    metadata.created && `built ${new Date(metadata.created).toLocaleDateString()}`,
+    metadata.architecture,
+    metadata.compressedSize && formatSize(metadata.compressedSize),
+    metadata.exposedPorts && `ports ${metadata.exposedPorts.join(', ')}`,
+  ].filter(Boolean);
+
+  if (!metadata.version && !metadata.revision && !metadata.title && details.length === 0 && !metadata.entrypoint) {
+    return null;
+  }
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-2 border border-border/60">
+      <div className="text-xs font-medium text-muted-foreground mb-1">Registry Image</div>
+      <div className="text-sm text-foreground">
+        {metadata.title && <span className="font-medium">{metadata.title} </span>}
+        {metadata.version ? `Latest is version ${metadata.version}` : 'Latest image'}
+        {shortRevision && (
+          <>
+            {' built from commit '}
+            {commitUrl ? (
+              <a href={commitUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 dark:text-blue-400 hover:underline" title={metadata.revision}>
+                {shortRevision}
+              </a>
+            ) : (
+              <span className="font-mono" title={metadata.revision}>{shortRevision}</span>
+            )}
+          </>
+        )}
+      </div>
+      {details.length > 0 && (
+        <div className="text-xs text-muted-foreground mt-1">{details.join(' · ')}</div>
+      )}
+      {metadata.entrypoint && (
+        <div className="text-xs text-muted-foreground mt-1">
+          Entrypoint: <code className="bg-muted px-1 rounded">{metadata.entrypoint.join(' ')}</code>
+        </div>
+      )}
+      {source && (
+        <a href={source} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline mt-1">
+          Source <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Save, Bell, TestTube, Plus, Trash2, ChevronDown, ChevronRight, Zap } from 'lucide-react';
 import { NotificationConfig } from '../types';
 import { useAuthenticatedFetch } from '../contexts/AuthContext';
+import { CHECK_ERROR_CODES, CHECK_ERROR_LABELS, CheckErrorCode } from '../../shared/checkErrors';
 
 interface NotificationSettingsProps {
   config: NotificationConfig;
@@ -94,6 +95,20 @@ export function NotificationSettings({ config, onUpdateConfig }: NotificationSet
   };
 
   // Helper to update trigger config and auto-save
+  // An empty errorCodes list means every error code notifies
+  const isErrorCodeEnabled = (code: CheckErrorCode) => {
+    const codes = localConfig.triggers?.errorCodes || [];
+    return codes.length === 0 || codes.includes(code);
+  };
+
+  const toggleErrorCode = (code: CheckErrorCode, checked: boolean) => {
+    const enabled = CHECK_ERROR_CODES.filter(c => (c === code ? checked : isErrorCodeEnabled(c)));
+    updateTriggerConfig(prev => ({
+      ...prev,
+      triggers: { ...prev.triggers, errorCodes: enabled.length === CHECK_ERROR_CODES.length ? [] : enabled }
+    }));
+  };
+
   const updateTriggerConfig = async (updater: (prev: NotificationConfig) => NotificationConfig) => {
     const newConfig = updater(localConfig);
     setLocalConfig(newConfig);
@@ -408,6 +423,21 @@ export function NotificationSettings({ config, onUpdateConfig }: NotificationSet
                   <p className="text-xs text-muted-foreground">Send notifications immediately when container updates are detected</p>
             </div>
           </div>
+
+              <div className="flex items-center space-x-3">
+              <Toggle
+                checked={localConfig.triggers?.unsignedUpdates === 'suppress'}
+                  onChange={(checked) => updateTriggerConfig(prev => ({
+                  ...prev,
+                    triggers: { ...prev.triggers, unsignedUpdates: checked ? 'suppress' : 'flag' }
+                }))}
+                ariaLabel="Suppress unsigned updates"
+              />
+                <div>
+                  <label className="text-sm font-medium text-foreground">Suppress unsigned updates</label>
+                  <p className="text-xs text-muted-foreground">Skip update notifications whose new image has a missing or invalid cosign signature (otherwise they are flagged)</p>
+            </div>
+          </div>
           
               <div className="flex items-center space-x-3">
               <Toggle
@@ -423,6 +453,23 @@ export function NotificationSettings({ config, onUpdateConfig }: NotificationSet
                   <p className="text-xs text-muted-foreground">Send notifications when errors occur during monitoring</p>
                 </div>
             </div>
+
+            {getTriggerValue('sendReportsOnErrors', true) && (
+              <div className="ml-14 space-y-1">
+                <p className="text-xs text-muted-foreground">Notify for these image check errors:</p>
+                {CHECK_ERROR_CODES.map(code => (
+                  <label key={code} className="flex items-center space-x-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={isErrorCodeEnabled(code)}
+                      onChange={(e) => toggleErrorCode(code, e.target.checked)}
+                      className="rounded border-input"
+                    />
+                    <span>{CHECK_ERROR_LABELS[code]}</span>
+                  </label>
+                ))}
+              </div>
+            )}
             </div>
         </div>
         )}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Paperclip } from 'lucide-react';
+import { ImageReferrer, ImageReferrers, ReferrerKind } from '../types';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+import { formatSize } from './ImageMetadataInfo';
+
+interface ReferrersInfoProps {
+  image: string;
+  tag: string;
+  targetPlatform?: string;
+}
+
+const KIND_LABELS: Record<ReferrerKind, string> = {
+  sbom: 'SBOM',
+  provenance: 'Provenance',
+  signature: 'Signature',
+  attestation: 'Attestation',
+  other: 'Artifact',
+};
+
+// SBOMs, provenance and other artifacts attached to the latest digest, loaded when expanded and each downloadable
+// through the server
+export function ReferrersInfo({ image, tag, targetPlatform }: ReferrersInfoProps) {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [isOpen, setIsOpen] = useState(false);
+  const [referrers, setReferrers] = useState<ImageReferrers | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ image, tag });
+      if (targetPlatform) params.set('platform', targetPlatform);
+      const response = await authenticatedFetch(`/api/registry/referrers?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load attached artifacts');
+      }
+      setReferrers(await response.json());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load attached artifacts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const artifacts = referrers?.artifacts || [];
+  const counts = artifacts.reduce<Partial<Record<ReferrerKind, number>>>((acc, artifact) => {
+    acc[artifact.kind] = (acc[artifact.kind] || 0) + 1;
+    return acc;
+  }, {});
+  const summary = (Object.keys(KIND_LABELS) as ReferrerKind[])
+    .filter(kind => counts[kind])
+    .map(kind => `${counts[kind]} ${KIND_LABELS[kind]}`)
+    .join(', ');
+
+  const download = async (artifact: ImageReferrer) => {
+    setDownloading(artifact.digest);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ image, tag, digest: artifact.digest });
+      if (targetPlatform) params.set('platform', targetPlatform);
+      const response = await authenticatedFetch(`/api/registry/referrers/download?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to download artifact');
+      }
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || 'artifact';
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to download artifact');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="border border-border/60 rounded-lg">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-between px-2 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+      >
+        <span className="flex items-center gap-1">
+          <Paperclip className="w-3.5 h-3.5" />
+          Attached artifacts{summary && `: ${summary}`}
+        </span>
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-2 pb-2 text-xs space-y-1">
+          {loading && <div className="text-muted-foreground">Loading...</div>}
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+          {!loading && referrers && artifacts.length === 0 && (
+            <div className="text-muted-foreground">No SBOMs, provenance or other artifacts are attached to the latest digest.</div>
+          )}
+          <ul className="space-y-1">
+            {artifacts.map(artifact => (
+              <li key={artifact.digest} className="flex items-center justify-between gap-2">
+                <span className="min-w-0">
+                  <span className="font-medium text-foreground">{KIND_LABELS[artifact.kind]}</span>{' '}
+                  <span className="font-mono text-muted-foreground break-all" title={artifact.digest}>{artifact.artifactType}</span>
+                  {artifact.size && <span className="text-muted-foreground"> · {formatSize(artifact.size)}</span>}
+                </span>
+                <button
+                  onClick={() => download(artifact)}
+                  disabled={downloading !== null}
+                  className="flex-shrink-0 p-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  title="Download"
+                >
+                  <Download className={`w-3.5 h-3.5 ${downloading === artifact.digest ? 'animate-pulse' : ''}`} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
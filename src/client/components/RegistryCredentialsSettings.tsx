@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Server, Plus, Trash2, Edit, Save, X, KeyRound } from 'lucide-react';
+import { RegistryCredential } from '../types';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+
+interface CredentialForm {
+  host: string;
+  username: string;
+  secret: string;
+}
+
+const emptyForm: CredentialForm = { host: '', username: '', secret: '' };
+
+export function RegistryCredentialsSettings() {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [credentials, setCredentials] = useState<RegistryCredential[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  // null = no form open, 'new' = adding, number = editing that credential id
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<CredentialForm>(emptyForm);
+
+  const fetchCredentials = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch('/api/registry-credentials');
+      if (!response.ok) {
+        throw new Error('Failed to fetch registry credentials');
+      }
+      setCredentials(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch registry credentials');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authenticatedFetch]);
+
+  useEffect(() => {
+    fetchCredentials();
+  }, [fetchCredentials]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startAdd = () => {
+    setForm(emptyForm);
+    setEditing('new');
+    setError(null);
+  };
+
+  const startEdit = (credential: RegistryCredential) => {
+    setForm({ host: credential.host, username: credential.username, secret: '' });
+    setEditing(credential.id);
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setForm(emptyForm);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const isNew = editing === 'new';
+      const response = await authenticatedFetch(
+        isNew ? '/api/registry-credentials' : `/api/registry-credentials/${editing}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          body: JSON.stringify(form),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save registry credentials');
+      }
+
+      await fetchCredentials();
+      cancelEdit();
+      showSuccess(isNew ? 'Registry credentials added' : 'Registry credentials updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save registry credentials');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (credential: RegistryCredential) => {
+    if (!confirm(`Remove credentials for ${credential.host}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedFetch(`/api/registry-credentials/${credential.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete registry credentials');
+      }
+      await fetchCredentials();
+      showSuccess('Registry credentials removed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete registry credentials');
+    }
+  };
+
+  const renderForm = () => (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Registry Host</label>
+          <input
+            type="text"
+            value={form.host}
+            onChange={(e) => setForm({ ...form, host: e.target.value })}
+            placeholder="e.g., ghcr.io, quay.io, harbor.example.com"
+            className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Username</label>
+          <input
+            type="text"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            placeholder="Username or robot account"
+            className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Token or Password</label>
+          <input
+            type="password"
+            value={form.secret}
+            onChange={(e) => setForm({ ...form, secret: e.target.value })}
+            placeholder={editing === 'new' ? 'Access token or password' : 'Leave blank to keep current'}
+            className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            autoComplete="new-password"
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !form.host || !form.username || (editing === 'new' && !form.secret)}
+          className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save'}</span>
+        </button>
+        <button
+          onClick={cancelEdit}
+          className="flex items-center space-x-2 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-accent transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Server className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Registry Credentials</h2>
+        </div>
+
+        {/* Inline Success/Error Messages */}
+        <div className="flex items-center space-x-2">
+          {success && (
+            <div className="px-3 py-1 bg-green-50 border border-green-200 rounded-md text-green-800 text-sm whitespace-nowrap">
+              {success}
+            </div>
+          )}
+          {error && (
+            <div className="px-3 py-1 bg-red-50 border border-red-200 rounded-md text-red-800 text-sm whitespace-nowrap">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Credentials are used when a registry asks for authentication (private GHCR packages, Harbor, Quay, or Docker Hub for higher rate limits).
+        They are stored encrypted and take effect on the next check without a restart. Use <code className="bg-muted px-1 rounded">docker.io</code> for Docker Hub.
+      </p>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading registry credentials...</div>
+      ) : (
+        <div className="space-y-3">
+          {credentials.length === 0 && editing !== 'new' && (
+            <div className="text-sm text-muted-foreground">No registry credentials configured.</div>
+          )}
+
+          {credentials.map((credential) => (
+            editing === credential.id ? (
+              <div key={credential.id}>{renderForm()}</div>
+            ) : (
+              <div key={credential.id} className="bg-card border border-border rounded-lg p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <KeyRound className="w-5 h-5 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium text-foreground">{credential.host}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {credential.username}{credential.hasSecret ? ' · token stored' : ''}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => startEdit(credential)}
+                    className="p-2 text-muted-foreground hover:text-foreground hover:bg-accent rounded-md transition-colors"
+                    title="Edit credentials"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(credential)}
+                    className="p-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                    title="Remove credentials"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+
+          {editing === 'new' ? renderForm() : (
+            <button
+              onClick={startAdd}
+              className="flex items-center space-x-2 px-4 py-2 border border-dashed border-border rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Registry</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, FileText } from 'lucide-react';
+import { ReleaseNotes } from '../types';
+
+interface ReleaseNotesInfoProps {
+  releaseNotes: ReleaseNotes;
+}
+
+// GitHub release for the pending update; the notes are shown as plain text when expanded
+export function ReleaseNotesInfo({ releaseNotes }: ReleaseNotesInfoProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="border border-border/60 rounded-lg">
+      <div className="flex items-center justify-between px-2 py-1.5 text-xs font-medium">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={!releaseNotes.body}
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground"
+        >
+          <FileText className="w-3.5 h-3.5" />
+          Release notes: {releaseNotes.name || releaseNotes.tag}
+          {releaseNotes.publishedAt && (
+            <span className="font-normal">({new Date(releaseNotes.publishedAt).toLocaleDateString()})</span>
+          )}
+          {releaseNotes.body && (isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />)}
+        </button>
+        <a
+          href={releaseNotes.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          GitHub <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+
+      {isOpen && releaseNotes.body && (
+        <div className="px-2 pb-2 text-xs text-foreground whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+          {releaseNotes.body}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bell, Settings, Container, Home, BookOpen, Radio, LogOut } from 'lucide-react';
+import { Bell, Settings, Container, Home, BookOpen, Radio, LogOut, History } from 'lucide-react';
 import { LAYOUT } from '../constants/layout';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -14,6 +14,7 @@ export function Sidebar({ activePage, onPageChange, unreadCount }: SidebarProps)
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'containers', label: 'Image Details', icon: Container },
+    { id: 'runs', label: 'Run History', icon: History },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'agents', label: 'Registry Radar Agent', icon: Radio },
     { id: 'getting-started', label: 'Getting Started', icon: BookOpen },
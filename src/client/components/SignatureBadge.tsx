@@ -0,0 +1,30 @@
+import { ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import { ImageSignature } from '../types';
+
+interface SignatureBadgeProps {
+  signature: ImageSignature;
+}
+
+const BADGES = {
+  signed: { label: 'Signed', Icon: ShieldCheck, className: 'text-green-800 bg-green-100 dark:text-green-200 dark:bg-green-900/30' },
+  unsigned: { label: 'Unsigned', Icon: ShieldAlert, className: 'text-orange-800 bg-orange-100 dark:text-orange-200 dark:bg-orange-900/30' },
+  invalid: { label: 'Invalid signature', Icon: ShieldX, className: 'text-red-800 bg-red-100 dark:text-red-200 dark:bg-red-900/30' },
+};
+
+// Cosign signature status of the latest digest; the tooltip says which key was used and why a signature was rejected
+export function SignatureBadge({ signature }: SignatureBadgeProps) {
+  const { label, Icon, className } = BADGES[signature.status];
+  const title = [
+    `${signature.keySource === 'container' ? 'Container' : 'Registry'} key ${signature.keyFingerprint.substring(0, 16)}`,
+    `Digest ${signature.digest.replace(/^sha256:/, '').substring(0, 12)}`,
+    signature.detail,
+    `Checked ${new Date(signature.checkedAt).toLocaleString()}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full font-medium ${className}`} title={title}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, Plus, Trash2, Edit, Save, X, KeyRound } from 'lucide-react';
+import { RegistrySigningKey } from '../types';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+
+interface SigningKeyForm {
+  host: string;
+  publicKey: string;
+}
+
+const emptyForm: SigningKeyForm = { host: '', publicKey: '' };
+
+export function SigningKeysSettings() {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [keys, setKeys] = useState<RegistrySigningKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  // null = no form open, 'new' = adding, number = editing that key id
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<SigningKeyForm>(emptyForm);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch('/api/signing-keys');
+      if (!response.ok) {
+        throw new Error('Failed to fetch signing keys');
+      }
+      setKeys(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch signing keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authenticatedFetch]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startAdd = () => {
+    setForm(emptyForm);
+    setEditing('new');
+    setError(null);
+  };
+
+  const startEdit = (key: RegistrySigningKey) => {
+    setForm({ host: key.host, publicKey: key.publicKey });
+    setEditing(key.id);
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setForm(emptyForm);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const isNew = editing === 'new';
+      const response = await authenticatedFetch(
+        isNew ? '/api/signing-keys' : `/api/signing-keys/${editing}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          body: JSON.stringify(form),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save signing key');
+      }
+
+      await fetchKeys();
+      cancelEdit();
+      showSuccess(isNew ? 'Signing key added' : 'Signing key updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save signing key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (key: RegistrySigningKey) => {
+    if (!confirm(`Remove the signing key for ${key.host}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedFetch(`/api/signing-keys/${key.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete signing key');
+      }
+      await fetchKeys();
+      showSuccess('Signing key removed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete signing key');
+    }
+  };
+
+  const renderForm = () => (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-1">Registry Host</label>
+        <input
+          type="text"
+          value={form.host}
+          onChange={(e) => setForm({ ...form, host: e.target.value })}
+          placeholder="e.g., ghcr.io, harbor.example.com"
+          className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground"
+          autoComplete="off"
+          spellCheck={false}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-1">Cosign Public Key</label>
+        <textarea
+          value={form.publicKey}
+          onChange={(e) => setForm({ ...form, publicKey: e.target.value })}
+          rows={5}
+          placeholder="-----BEGIN PUBLIC KEY-----"
+          className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-xs"
+          spellCheck={false}
+        />
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !form.host || !form.publicKey}
+          className="flex items-center space-x-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save'}</span>
+        </button>
+        <button
+          onClick={cancelEdit}
+          className="flex items-center space-x-2 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-accent transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Signing Keys</h2>
+        </div>
+
+        {/* Inline Success/Error Messages */}
+        <div className="flex items-center space-x-2">
+          {success && (
+            <div className="px-3 py-1 bg-green-50 border border-green-200 rounded-md text-green-800 text-sm whitespace-nowrap">
+              {success}
+            </div>
+          )}
+          {error && (
+            <div className="px-3 py-1 bg-red-50 border border-red-200 rounded-md text-red-800 text-sm whitespace-nowrap">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        New digests of images on these registries are checked for a cosign signature made with the registry's public key, and marked signed, unsigned or invalid.
+        A key set on a container takes precedence. Paste several PEM blocks to accept more than one key.
+      </p>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading signing keys...</div>
+      ) : (
+        <div className="space-y-3">
+          {keys.length === 0 && editing !== 'new' && (
+            <div className="text-sm text-muted-foreground">No signing keys configured.</div>
+          )}
+
+          {keys.map((key) => (
+            editing === key.id ? (
+              <div key={key.id}>{renderForm()}</div>
+            ) : (
+              <div key={key.id} className="bg-card border border-border rounded-lg p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <KeyRound className="w-5 h-5 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium text-foreground">{key.host}</div>
+                    <div className="text-sm text-muted-foreground font-mono" title={key.fingerprint}>
+                      SHA256 {key.fingerprint.substring(0, 16)}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => startEdit(key)}
+                    className="p-2 text-muted-foreground hover:text-foreground hover:bg-accent rounded-md transition-colors"
+                    title="Edit signing key"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(key)}
+                    className="p-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                    title="Remove signing key"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+
+          {editing === 'new' ? renderForm() : (
+            <button
+              onClick={startAdd}
+              className="flex items-center space-x-2 px-4 py-2 border border-dashed border-border rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Signing Key</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
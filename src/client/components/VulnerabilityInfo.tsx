@@ -0,0 +1,55 @@
+import { Bug } from 'lucide-react';
+import { VulnerabilityComparison, VulnerabilityScan } from '../types';
+import { VULNERABILITY_SEVERITIES, VulnerabilitySeverity, describeVulnerabilityChange } from '../../shared/vulnerabilities';
+
+interface VulnerabilityInfoProps {
+  vulnerabilities: VulnerabilityComparison;
+}
+
+const SEVERITY_CLASSES: Record<VulnerabilitySeverity, string> = {
+  critical: 'text-red-700 dark:text-red-300',
+  high: 'text-orange-700 dark:text-orange-300',
+  medium: 'text-yellow-700 dark:text-yellow-300',
+  low: 'text-blue-700 dark:text-blue-300',
+  unknown: 'text-muted-foreground',
+};
+
+function ScanRow({ label, scan }: { label: string; scan?: VulnerabilityScan }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      {scan ? (
+        <span
+          className="flex gap-2 font-mono"
+          title={`${scan.digest.replace(/^sha256:/, '').substring(0, 12)} scanned ${new Date(scan.scannedAt).toLocaleString()}`}
+        >
+          {VULNERABILITY_SEVERITIES.map(severity => (
+            <span key={severity} className={scan[severity] > 0 ? SEVERITY_CLASSES[severity] : 'text-muted-foreground/60'}>
+              {scan[severity]}{severity[0].toUpperCase()}
+            </span>
+          ))}
+        </span>
+      ) : (
+        <span className="text-muted-foreground">Not scanned</span>
+      )}
+    </div>
+  );
+}
+
+// CVE counts per severity (C/H/M/L/U) for the monitored and latest digests, and what the update changes
+export function VulnerabilityInfo({ vulnerabilities }: VulnerabilityInfoProps) {
+  const { current, latest } = vulnerabilities;
+  const change = current && latest ? describeVulnerabilityChange(current, latest) : null;
+
+  return (
+    <div className="border border-border/60 rounded-lg px-2 py-1.5 text-xs space-y-1">
+      <div className="flex items-center gap-1 font-medium text-muted-foreground">
+        <Bug className="w-3.5 h-3.5" />
+        Vulnerabilities
+      </div>
+      <ScanRow label="Current" scan={current} />
+      <ScanRow label="Latest" scan={latest} />
+      {change && <div className="font-medium text-foreground">{change}</div>}
+    </div>
+  );
+}
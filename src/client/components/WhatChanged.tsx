@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+import { ImageDiff, ImageLayer } from '../types';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+import { formatSize } from './ImageMetadataInfo';
+
+interface WhatChangedProps {
+  image: string;
+  tag: string;
+  targetPlatform?: string;
+}
+
+const shortDigest = (digest: string) => digest.replace(/^sha256:/, '').substring(0, 12);
+
+const formatDelta = (bytes: number) => `${bytes >= 0 ? '+' : '−'}${formatSize(Math.abs(bytes))}`;
+
+function LayerList({ title, layers, className }: { title: string; layers: ImageLayer[]; className: string }) {
+  if (layers.length === 0) return null;
+  return (
+    <div>
+      <div className={`font-medium ${className}`}>{title}</div>
+      <ul>
+        {layers.map((layer, index) => (
+          <li key={`${layer.digest}-${index}`} className="flex justify-between gap-2 font-mono" title={layer.digest}>
+            <span>{shortDigest(layer.digest)}</span>
+            <span className="font-sans text-muted-foreground">{formatSize(layer.size)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Layer, size and label differences between the monitored digest and the latest one, loaded when expanded
+export function WhatChanged({ image, tag, targetPlatform }: WhatChangedProps) {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [isOpen, setIsOpen] = useState(false);
+  const [diff, setDiff] = useState<ImageDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ image, tag });
+      if (targetPlatform) params.set('platform', targetPlatform);
+      const response = await authenticatedFetch(`/api/registry/diff?${params.toString()}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to compare digests');
+      }
+      setDiff(await response.json());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to compare digests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-border/60 rounded-lg">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-between px-2 py-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+      >
+        <span className="flex items-center gap-1">
+          <GitCompare className="w-3.5 h-3.5" />
+          What changed
+        </span>
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-2 pb-2 text-xs space-y-2">
+          {loading && <div className="text-muted-foreground">Comparing digests...</div>}
+          {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+          {!loading && !error && diff && (
+            <>
+              <div className="text-foreground">
+                {diff.added.length} layer{diff.added.length === 1 ? '' : 's'} added, {diff.removed.length} removed, {diff.unchanged.length} unchanged
+                <span className="text-muted-foreground">
+                  {' · '}{formatSize(diff.fromSize)} → {formatSize(diff.toSize)} ({formatDelta(diff.sizeDelta)})
+                  {diff.platform && ` · ${diff.platform}`}
+                </span>
+              </div>
+              <LayerList title="Added layers" layers={diff.added} className="text-orange-700 dark:text-orange-300" />
+              <LayerList title="Removed layers" layers={diff.removed} className="text-muted-foreground" />
+              {diff.labelChanges.length > 0 && (
+                <div>
+                  <div className="font-medium text-foreground">Changed labels</div>
+                  <ul className="space-y-0.5">
+                    {diff.labelChanges.map(change => (
+                      <li key={change.key} className="break-all">
+                        <span className="font-mono">{change.key}</span>:{' '}
+                        <span className="text-muted-foreground line-through">{change.from ?? '(none)'}</span>
+                        {' → '}
+                        <span className="text-foreground">{change.to ?? '(removed)'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
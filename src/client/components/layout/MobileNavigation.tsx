@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Menu, X, Bell, Settings, Container, Home, BookOpen, LogOut } from 'lucide-react';
+import { Menu, X, Bell, Settings, Container, Home, BookOpen, LogOut, History } from 'lucide-react';
 import { LAYOUT } from '../../constants/layout';
 import { ThemeToggle } from '../ThemeToggle';
 import { useAuth } from '../../contexts/AuthContext';
@@ -17,6 +17,7 @@ export function MobileNavigation({ activePage, onPageChange, unreadCount }: Mobi
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'containers', label: 'Image Details', icon: Container },
+    { id: 'runs', label: 'Run History', icon: History },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'getting-started', label: 'Getting Started', icon: BookOpen },
     { id: 'settings', label: 'Settings', icon: Settings },
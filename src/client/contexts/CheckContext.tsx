@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { useAuth, useAuthenticatedFetch } from './AuthContext';
+import { CheckJob, CheckJobEvent } from '../types';
 
 interface CheckProgress {
   isChecking: boolean;
+  isCancelling: boolean;
   current: number;
   total: number;
   currentContainer?: string;
@@ -10,92 +13,176 @@ interface CheckProgress {
 
 interface CheckContextType {
   progress: CheckProgress;
-  startCheck: (total: number) => void;
-  updateProgress: (current: number, container?: string) => void;
-  completeCheck: () => void;
-  cancelCheck: () => void;
+  job: CheckJob | null; // The running job, or the last one seen finishing
+  startCheck: () => Promise<void>;
+  cancelCheck: () => Promise<void>;
 }
 
 const CheckContext = createContext<CheckContextType | undefined>(undefined);
 
 interface CheckProviderProps {
   children: ReactNode;
+  onCheckFinished?: (job: CheckJob) => void;
 }
 
-export function CheckProvider({ children }: CheckProviderProps) {
-  const [progress, setProgress] = useState<CheckProgress>({
-    isChecking: false,
-    current: 0,
-    total: 0,
-  });
+const RECONNECT_DELAY_MS = 5000;
+
+// Apply one stream event to the job we know about
+function applyEvent(job: CheckJob | null, event: CheckJobEvent): CheckJob | null {
+  switch (event.type) {
+    case 'snapshot':
+      return event.job;
+    case 'progress':
+      if (!job || job.id !== event.jobId) return job;
+      return {
+        ...job,
+        completed: event.completed,
+        total: event.total,
+        current: event.current,
+        results: event.result ? [...job.results, event.result] : job.results,
+      };
+    default:
+      return event.job;
+  }
+}
+
+// Check progress comes from the server: checks run as jobs there and are streamed over Server-Sent Events, so the
+// progress bar shows the real state after a reload, in a second browser, and for scheduled runs.
+// The stream is read with fetch rather than EventSource so it can carry the Authorization header.
+export function CheckProvider({ children, onCheckFinished }: CheckProviderProps) {
+  const { token } = useAuth();
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [job, setJob] = useState<CheckJob | null>(null);
+  const jobRef = useRef<CheckJob | null>(null);
+  const onCheckFinishedRef = useRef(onCheckFinished);
+  onCheckFinishedRef.current = onCheckFinished;
+
+  const handleEvent = useCallback((event: CheckJobEvent) => {
+    const previous = jobRef.current;
+    const next = applyEvent(previous, event);
+    jobRef.current = next;
+    setJob(next);
+
+    if (event.type === 'finished') {
+      onCheckFinishedRef.current?.(event.job);
+    } else if (event.type === 'snapshot' && previous?.status === 'running' && event.job?.id !== previous.id) {
+      // The job we were following finished while the stream was down
+      onCheckFinishedRef.current?.({ ...previous, status: 'completed', current: [] });
+    }
+  }, []);
 
-  // Persist check state in localStorage
   useEffect(() => {
-    const savedProgress = localStorage.getItem('checkProgress');
-    if (savedProgress) {
+    if (!token) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
       try {
-        const parsed = JSON.parse(savedProgress);
-        // Only restore if the check was recent (within last 5 minutes)
-        if (parsed.startTime && Date.now() - parsed.startTime < 5 * 60 * 1000) {
-          setProgress(parsed);
-        } else {
-          // Clear old progress
-          localStorage.removeItem('checkProgress');
+        const response = await fetch('/api/registry/check/events', {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream returned ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Events end with a blank line; lines starting with ":" are keep-alive comments
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            const data = buffer.slice(0, boundary)
+              .split('\n')
+              .filter(line => line.startsWith('data:'))
+              .map(line => line.slice(5).trim())
+              .join('\n');
+            buffer = buffer.slice(boundary + 2);
+            if (data) {
+              handleEvent(JSON.parse(data));
+            }
+            boundary = buffer.indexOf('\n\n');
+          }
         }
       } catch (error) {
-        console.error('Error parsing saved check progress:', error);
-        localStorage.removeItem('checkProgress');
+        if (controller.signal.aborted) return;
+        console.error('Check event stream error:', error);
       }
-    }
-  }, []);
 
-  // Save progress to localStorage whenever it changes
-  useEffect(() => {
-    if (progress.isChecking) {
-      localStorage.setItem('checkProgress', JSON.stringify(progress));
-    } else {
-      localStorage.removeItem('checkProgress');
-    }
-  }, [progress]);
-
-  const startCheck = (total: number) => {
-    setProgress({
-      isChecking: true,
-      current: 0,
-      total,
-      startTime: Date.now(),
-    });
-  };
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
 
-  const updateProgress = (current: number, container?: string) => {
-    setProgress(prev => ({
-      ...prev,
-      current,
-      currentContainer: container,
-    }));
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [token, handleEvent]);
+
+  const startCheck = async () => {
+    try {
+      const response = await authenticatedFetch('/api/registry/check', {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        handleEvent({ type: 'started', job: data });
+      } else if (response.status === 409 && data.job) {
+        // Someone else started a check; follow that one
+        handleEvent({ type: 'snapshot', job: data.job });
+      } else {
+        throw new Error(data.error);
+      }
+    } catch (error) {
+      console.error('Error starting registry check:', error);
+    }
   };
 
-  const completeCheck = () => {
-    setProgress({
-      isChecking: false,
-      current: 0,
-      total: 0,
-    });
+  const cancelCheck = async () => {
+    if (!job || job.status !== 'running') {
+      return;
+    }
+    try {
+      const response = await authenticatedFetch(`/api/registry/check/jobs/${job.id}/cancel`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error);
+      }
+    } catch (error) {
+      console.error('Error cancelling registry check:', error);
+    }
   };
 
-  const cancelCheck = () => {
-    setProgress({
-      isChecking: false,
-      current: 0,
-      total: 0,
-    });
+  const isChecking = job?.status === 'running';
+  const progress: CheckProgress = {
+    isChecking,
+    isCancelling: isChecking && Boolean(job?.cancelRequested),
+    current: isChecking ? job.completed : 0,
+    total: isChecking ? job.total : 0,
+    currentContainer: isChecking && job.current.length > 0
+      ? `${job.current[0]}${job.current.length > 1 ? ` +${job.current.length - 1} more` : ''}`
+      : undefined,
+    startTime: isChecking ? Date.parse(job.startedAt) : undefined,
   };
 
   const value: CheckContextType = {
     progress,
+    job,
     startCheck,
-    updateProgress,
-    completeCheck,
     cancelCheck,
   };
 
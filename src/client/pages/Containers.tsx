@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { Plus, RefreshCw, Upload, Download, Search, X } from 'lucide-react';
-import { ContainerRegistry, ContainerState } from '../types';
+import { ContainerRegistry, ContainerState, isSameContainer } from '../types';
 import { ContainerTable } from '../components/ContainerTable';
 import { AddContainerModal } from '../components/AddContainerModal';
 import { BulkImportModal } from '../components/BulkImportModal';
@@ -18,7 +18,6 @@ interface ContainersProps {
   onAddContainer: (container: ContainerRegistry) => Promise<void>;
   onUpdateContainer: (index: number, container: ContainerRegistry) => Promise<void>;
   onDeleteContainer: (index: number) => Promise<void>;
-  onCheckRegistry: () => Promise<void>;
   onRefreshContainerStates: () => Promise<void>;
 }
 
@@ -28,14 +27,12 @@ export function Containers({
   onAddContainer,
   onUpdateContainer,
   onDeleteContainer,
-  onCheckRegistry,
   onRefreshContainerStates,
 }: ContainersProps) {
-  const { progress, startCheck, updateProgress, completeCheck, cancelCheck } = useCheck();
+  const { progress, startCheck } = useCheck();
   const authenticatedFetch = useAuthenticatedFetch();
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isBulkImportModalOpen, setIsBulkImportModalOpen] = useState(false);
-  const [isCheckingAll, setIsCheckingAll] = useState(false);
   const [checkingIndex, setCheckingIndex] = useState<number | null>(null);
   const [isCheckConfirmationOpen, setIsCheckConfirmationOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -96,46 +93,8 @@ export function Containers({
       return; // Already checking
     }
 
-    startCheck(containers.length);
-    setIsCheckingAll(true);
-    
-    try {
-      // Simulate progress updates for each container
-      for (let i = 0; i < containers.length; i++) {
-        const container = containers[i];
-        updateProgress(i + 1, `${container.imagePath}:${container.tag}`);
-        
-        // Check individual container
-        try {
-          const response = await authenticatedFetch(`/api/registry/check/${i}`, {
-            method: 'POST',
-          });
-          
-          if (!response.ok) {
-            console.error(`Failed to check container ${i}:`, response.statusText);
-          }
-        } catch (error) {
-          console.error(`Error checking container ${i}:`, error);
-        }
-        
-        // Small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      // Refresh container states after all checks
-      await onRefreshContainerStates();
-      
-      // Force page refresh to ensure UI is updated with latest data
-      setTimeout(() => {
-        window.location.reload();
-      }, 1000); // 1 second delay to allow any final processing
-      
-    } catch (error) {
-      console.error('Error checking all registries:', error);
-    } finally {
-      setIsCheckingAll(false);
-      completeCheck();
-    }
+    // The check runs as a job on the server; progress and refreshed states arrive over the check event stream
+    await startCheck();
   };
 
   const handleCheckSingle = async (index: number) => {
@@ -164,7 +123,8 @@ export function Containers({
     try {
       const image = encodeURIComponent(container.imagePath);
       const tag = encodeURIComponent(container.tag || 'latest');
-      const response = await authenticatedFetch(`/api/registry/reset/${image}/${tag}`, {
+      const platform = container.platform ? `?platform=${encodeURIComponent(container.platform)}` : '';
+      const response = await authenticatedFetch(`/api/registry/reset/${image}/${tag}${platform}`, {
         method: 'POST',
       });
       
@@ -261,11 +221,11 @@ export function Containers({
       </button>
       <button
         onClick={handleCheckAll}
-        disabled={isCheckingAll || containers.length === 0}
+        disabled={progress.isChecking || containers.length === 0}
         className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        <RefreshCw className={`w-4 h-4 ${isCheckingAll ? 'animate-spin' : ''}`} />
-        <span>{isCheckingAll ? 'Checking...' : 'Check All'}</span>
+        <RefreshCw className={`w-4 h-4 ${progress.isChecking ? 'animate-spin' : ''}`} />
+        <span>{progress.isChecking ? 'Checking...' : 'Check All'}</span>
       </button>
       <ThemeToggle />
     </>
@@ -341,7 +301,7 @@ export function Containers({
               // Find the original index in the unfiltered array
               const container = filteredContainers[index];
               const originalIndex = containers.findIndex(
-                c => c.imagePath === container.imagePath && c.tag === container.tag
+                c => isSameContainer(c, container)
               );
               return handleUpdateContainer(originalIndex, container);
             }}
@@ -349,7 +309,7 @@ export function Containers({
               // Find the original index in the unfiltered array
               const container = filteredContainers[index];
               const originalIndex = containers.findIndex(
-                c => c.imagePath === container.imagePath && c.tag === container.tag
+                c => isSameContainer(c, container)
               );
               if (originalIndex === -1) {
                 console.error('Could not find original index for container:', container);
@@ -362,7 +322,7 @@ export function Containers({
               const originalIndices = indices.map(i => {
                 const container = filteredContainers[i];
                 const originalIndex = containers.findIndex(
-                  c => c.imagePath === container.imagePath && c.tag === container.tag
+                  c => isSameContainer(c, container)
                 );
                 if (originalIndex === -1) {
                   console.error('Could not find original index for container:', container);
@@ -380,7 +340,7 @@ export function Containers({
               // Find the original index in the unfiltered array
               const container = filteredContainers[index];
               const originalIndex = containers.findIndex(
-                c => c.imagePath === container.imagePath && c.tag === container.tag
+                c => isSameContainer(c, container)
               );
               handleCheckSingle(originalIndex);
             }}
@@ -388,8 +348,7 @@ export function Containers({
             checkingIndex={checkingIndex !== null ? (
               // Map checking index from original to filtered
               filteredContainers.findIndex(c => 
-                c.imagePath === containers[checkingIndex]?.imagePath && 
-                c.tag === containers[checkingIndex]?.tag
+                !!containers[checkingIndex] && isSameContainer(c, containers[checkingIndex])
               )
             ) : null}
           />
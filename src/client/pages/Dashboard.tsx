@@ -1,10 +1,11 @@
 import { useState, useMemo, useEffect } from 'react';
 import { RefreshCw, Container, AlertCircle, CheckCircle, Clock, Plus, X, Upload, Search, SlidersHorizontal, XCircle } from 'lucide-react';
-import { ContainerRegistry, ContainerState, Notification } from '../types';
+import { ContainerRegistry, ContainerState, Notification, RateLimitStatus, findContainerState, isStateForContainer, isSameContainer } from '../types';
 import { AddContainerModal } from '../components/AddContainerModal';
 import { BulkImportModal } from '../components/BulkImportModal';
 import { ContainerCard } from '../components/ContainerCard';
 import { CheckConfirmationModal } from '../components/CheckConfirmationModal';
+import { DockerHubBudget } from '../components/DockerHubBudget';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { PageHeader } from '../components/layout/PageHeader';
 import { PageContent } from '../components/layout/PageContent';
@@ -23,7 +24,6 @@ interface DashboardProps {
   containers: ContainerRegistry[];
   containerStates: ContainerState[];
   notifications: Notification[];
-  onCheckRegistry: () => Promise<void>;
   onRefreshContainerStates: () => Promise<void>;
   onAddContainer: (container: ContainerRegistry) => Promise<void>;
   onUpdateContainer: (index: number, container: ContainerRegistry) => Promise<void>;
@@ -36,7 +36,6 @@ export function Dashboard({
   containers, 
   containerStates, 
   notifications, 
-  onCheckRegistry,
   onRefreshContainerStates,
   onAddContainer,
   onUpdateContainer,
@@ -44,7 +43,7 @@ export function Dashboard({
   initialOpenModal,
   onModalOpened
 }: DashboardProps) {
-  const { progress, startCheck, updateProgress, completeCheck, cancelCheck } = useCheck();
+  const { progress, startCheck } = useCheck();
   
   const getDaysSinceUpdate = (state: ContainerState | undefined) => {
     if (!state?.lastUpdated) {
@@ -112,7 +111,6 @@ export function Dashboard({
     
     return 'text-green-600';
   };
-  const [isChecking, setIsChecking] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isBulkImportModalOpen, setIsBulkImportModalOpen] = useState(false);
   const [checkingIndex, setCheckingIndex] = useState<number | null>(null);
@@ -150,6 +148,23 @@ export function Dashboard({
     
     fetchAgents();
   }, [authenticatedFetch]);
+
+  // Docker Hub pull budget; re-read whenever states change (after checks)
+  const [rateLimit, setRateLimit] = useState<RateLimitStatus | null>(null);
+  useEffect(() => {
+    const fetchRateLimit = async () => {
+      try {
+        const response = await authenticatedFetch('/api/registry/rate-limit');
+        if (response.ok) {
+          setRateLimit(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch rate limit status:', error);
+      }
+    };
+
+    fetchRateLimit();
+  }, [authenticatedFetch, containerStates]);
   
   // Search, Sort, and Group state
   const [searchQuery, setSearchQuery] = useState('');
@@ -182,46 +197,8 @@ export function Dashboard({
       return; // Already checking
     }
 
-    startCheck(containers.length);
-    setIsChecking(true);
-    
-    try {
-      // Simulate progress updates for each container
-      for (let i = 0; i < containers.length; i++) {
-        const container = containers[i];
-        updateProgress(i + 1, `${container.imagePath}:${container.tag || 'latest'}`);
-        
-        // Check individual container
-        try {
-          const response = await authenticatedFetch(`/api/registry/check/${i}`, {
-            method: 'POST',
-          });
-          
-          if (!response.ok) {
-            console.error(`Failed to check container ${i}:`, response.statusText);
-          }
-        } catch (error) {
-          console.error(`Error checking container ${i}:`, error);
-        }
-        
-        // Small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      // Refresh container states after all checks
-      await onRefreshContainerStates();
-      
-      // Force page refresh to ensure UI is updated with latest data
-      setTimeout(() => {
-        window.location.reload();
-      }, 1000); // 1 second delay to allow any final processing
-      
-    } catch (error) {
-      console.error('Error checking registry:', error);
-    } finally {
-      setIsChecking(false);
-      completeCheck();
-    }
+    // The check runs as a job on the server; progress and refreshed states arrive over the check event stream
+    await startCheck();
   };
 
   // Only consider states that correspond to current containers
@@ -229,16 +206,6 @@ export function Dashboard({
     containers.some(c => c.imagePath === state.image && (c.tag || 'latest') === (state.tag || 'latest'))
   );
 
-  // Helper: identify v-prefixed semantic version tags like v1.2.3 or versions with additional characters after semantic version like 0.1.0-beta.4
-  const isVPrefixedVersionedTag = (tag?: string): boolean => {
-    const normalizedTag = tag || 'latest';
-    // Match v-prefixed versions like v1.2.3
-    const vPrefixedPattern = /^v\d+\.\d+\.\d+/;
-    // Match versions with additional characters after semantic version like 0.1.0-beta.4, 1.2.3-rc.1, etc.
-    const extendedVersionPattern = /^\d+\.\d+\.\d+[^0-9]/;
-    return vPrefixedPattern.test(normalizedTag) || extendedVersionPattern.test(normalizedTag);
-  };
-
   // Compute stats
   const errorsSet = new Set(
     stateMatchesCurrent
@@ -246,16 +213,7 @@ export function Dashboard({
       .map(state => `${state.image}@@${state.tag || 'latest'}`)
   );
 
-  const warningsSet = new Set(
-    containers
-      .filter(c => isVPrefixedVersionedTag(c.tag))
-      .map(c => `${c.imagePath}@@${c.tag || 'latest'}`)
-  );
-
-  // Union of errors and warnings for display count on the card and filter results
-  const errorsAndWarningsSet = new Set<string>([...errorsSet, ...warningsSet]);
-
-  const errorsAndWarnings = errorsAndWarningsSet.size;
+  const errors = errorsSet.size;
   const upToDate = stateMatchesCurrent.filter(state => (state.lastChecked && state.lastChecked !== '') && !(state.hasUpdate || state.hasNewerTag) && !state.error && !state.statusMessage).length;
   const updatesAvailable = stateMatchesCurrent.filter(state => (state.lastChecked && state.lastChecked !== '') && (state.hasUpdate || state.hasNewerTag) && !state.updateAcknowledged && !state.error).length;
   const total = containers.length;
@@ -270,7 +228,7 @@ export function Dashboard({
     total,
     upToDate,
     updatesAvailable,
-    errors: errorsAndWarnings,
+    errors,
     neverChecked,
     agentMonitored,
   };
@@ -369,7 +327,8 @@ export function Dashboard({
     try {
       const image = encodeURIComponent(container.imagePath);
       const tag = encodeURIComponent(container.tag || 'latest');
-      const response = await authenticatedFetch(`/api/registry/reset/${image}/${tag}`, {
+      const platform = container.platform ? `?platform=${encodeURIComponent(container.platform)}` : '';
+      const response = await authenticatedFetch(`/api/registry/reset/${image}/${tag}${platform}`, {
         method: 'POST',
       });
       
@@ -386,9 +345,7 @@ export function Dashboard({
   };
 
   const getContainerState = (container: ContainerRegistry): ContainerState | undefined => {
-    return containerStates.find(state => 
-      state.image === container.imagePath && (state.tag || 'latest') === (container.tag || 'latest')
-    );
+    return findContainerState(containerStates, container);
   };
 
   // Filter, sort, and group containers
@@ -415,10 +372,7 @@ export function Dashboard({
         } else if (statusFilter === 'updates') {
           return state?.lastChecked && (state.hasUpdate || state.hasNewerTag) && !state.updateAcknowledged && !state.error;
         } else if (statusFilter === 'errors') {
-          // Include actual errors/status plus v-prefixed version-tagged containers (tip case)
-          const hasErrorOrStatus = !!(state?.error || state?.statusMessage);
-          const isVVersionTag = isVPrefixedVersionedTag(container.tag);
-          return hasErrorOrStatus || isVVersionTag;
+          return !!(state?.error || state?.statusMessage);
         } else if (statusFilter === 'neverChecked') {
           return !state?.lastChecked || state.lastChecked === '';
         } else if (statusFilter === 'agentMonitored') {
@@ -471,8 +425,11 @@ export function Dashboard({
       const registryMap = new Map<string, ContainerRegistry[]>();
       
       filtered.forEach(c => {
+        const firstPart = c.imagePath.split('/')[0];
+        const hasRegistryDomain = c.imagePath.includes('/') && firstPart.includes('.');
         const registry = c.imagePath.includes('ghcr.io') ? 'GitHub Container Registry' :
                         c.imagePath.includes('lscr.io') ? 'LinuxServer.io' :
+                        hasRegistryDomain && !['docker.io', 'registry.hub.docker.com'].includes(firstPart) ? firstPart :
                         c.imagePath.includes('/') ? 'Docker Hub (User)' : 'Docker Hub (Official)';
         
         if (!registryMap.has(registry)) {
@@ -538,11 +495,11 @@ export function Dashboard({
       </button>
       <button
         onClick={handleCheckRegistry}
-        disabled={isChecking || containers.length === 0}
+        disabled={progress.isChecking || containers.length === 0}
         className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
-        <span>{isChecking ? 'Checking...' : 'Check All'}</span>
+        <RefreshCw className={`w-4 h-4 ${progress.isChecking ? 'animate-spin' : ''}`} />
+        <span>{progress.isChecking ? 'Checking...' : 'Check All'}</span>
       </button>
       <ThemeToggle />
     </>
@@ -615,7 +572,7 @@ export function Dashboard({
           >
             <div className="flex items-center space-x-2">
               <XCircle className="w-5 h-5 text-red-500" />
-              <span className="text-sm font-medium text-muted-foreground">Errors & Warnings</span>
+              <span className="text-sm font-medium text-muted-foreground">Errors</span>
             </div>
             <p className="text-2xl font-bold text-foreground mt-2">{stats.errors}</p>
           </div>
@@ -652,15 +609,15 @@ export function Dashboard({
         </ResponsiveStatsGrid>
       )}
 
+      {rateLimit?.dockerHub && <DockerHubBudget status={rateLimit} />}
+
       {/* Recent Updates - Disabled */}
       {false && recentUpdates.length > 0 && (
         <div className="bg-card border border-border rounded-lg p-6">
           <h2 className="text-lg font-semibold text-foreground mb-4">Recent Updates Available</h2>
           <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
             {recentUpdates.map((state, index) => {
-              const container = containers.find(c => 
-                c.imagePath === state.image && c.tag === state.tag
-              );
+              const container = containers.find(c => isStateForContainer(state, c));
               
               const getDaysSinceUpdate = () => {
                 if (!state.lastUpdated) {
@@ -758,11 +715,9 @@ export function Dashboard({
               )}
                 <ResponsiveContainerGrid>
                   {group.containers.map((container, index) => {
-                    const containerState = containerStates.find(
-                      state => state.image === container.imagePath && state.tag === (container.tag || 'latest')
-                    );
+                    const containerState = findContainerState(containerStates, container);
                     const originalIndex = containers.findIndex(
-                      c => c.imagePath === container.imagePath && c.tag === container.tag
+                      c => isSameContainer(c, container)
                     );
                     return (
                       <ContainerCard
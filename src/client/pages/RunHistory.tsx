@@ -0,0 +1,226 @@
+import { Fragment, useEffect, useState, useCallback } from 'react';
+import { RefreshCw, ChevronDown, ChevronRight, Clock, CheckCircle, XCircle, AlertCircle, Ban } from 'lucide-react';
+import { CheckRun, CheckRunDetail, CheckJobResult } from '../types';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { PageHeader } from '../components/layout/PageHeader';
+import { PageContent } from '../components/layout/PageContent';
+import { useAuthenticatedFetch } from '../contexts/AuthContext';
+import { useCheck } from '../contexts/CheckContext';
+
+const PAGE_SIZE = 50;
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '—';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const triggerLabels: Record<CheckRun['trigger'], string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+};
+
+function StatusBadge({ status }: { status: CheckRun['status'] }) {
+  switch (status) {
+    case 'completed':
+      return <span className="inline-flex items-center text-green-600 dark:text-green-400"><CheckCircle className="w-4 h-4 mr-1" />Completed</span>;
+    case 'cancelled':
+      return <span className="inline-flex items-center text-muted-foreground"><Ban className="w-4 h-4 mr-1" />Cancelled</span>;
+    case 'failed':
+      return <span className="inline-flex items-center text-red-600 dark:text-red-400"><XCircle className="w-4 h-4 mr-1" />Failed</span>;
+    default:
+      return <span className="inline-flex items-center text-blue-600 dark:text-blue-400"><RefreshCw className="w-4 h-4 mr-1 animate-spin" />Running</span>;
+  }
+}
+
+function resultLabel(result: CheckJobResult) {
+  if (result.error) return <span className="text-red-600 dark:text-red-400">{result.error}</span>;
+  if (result.deferred) return <span className="text-muted-foreground">Deferred (Docker Hub pull budget low)</span>;
+  if (result.hasNewerTag && result.latestAvailableTag) return <span className="text-orange-600 dark:text-orange-400">Newer version: {result.latestAvailableTag}</span>;
+  if (result.hasUpdate) return <span className="text-orange-600 dark:text-orange-400">Update available</span>;
+  return <span className="text-green-600 dark:text-green-400">Up to date</span>;
+}
+
+export function RunHistory() {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const { job } = useCheck();
+
+  const [runs, setRuns] = useState<CheckRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, CheckRunDetail>>({});
+
+  const fetchRuns = useCallback(async (offset: number = 0) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await authenticatedFetch(`/api/registry/runs?limit=${PAGE_SIZE}&offset=${offset}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to load run history');
+      }
+      const data: { runs: CheckRun[]; total: number } = await res.json();
+      setRuns(prev => offset === 0 ? data.runs : [...prev, ...data.runs]);
+      setTotal(data.total);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load run history');
+    } finally {
+      setLoading(false);
+    }
+  }, [authenticatedFetch]);
+
+  // Reload when a check starts or finishes
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns, job?.id, job?.status]);
+
+  const toggleRun = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    if (details[id]) return;
+
+    try {
+      const res = await authenticatedFetch(`/api/registry/runs/${id}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to load run');
+      }
+      const data: CheckRunDetail = await res.json();
+      setDetails(prev => ({ ...prev, [id]: data }));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load run');
+    }
+  };
+
+  const headerActions = (
+    <>
+      <button
+        onClick={() => fetchRuns()}
+        disabled={loading}
+        className="inline-flex items-center px-3 py-2 rounded-lg border border-border hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Refresh run history"
+      >
+        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+      </button>
+      <ThemeToggle />
+    </>
+  );
+
+  return (
+    <div>
+      <PageHeader
+        title="Run History"
+        description="When checks ran and what they found"
+        actions={headerActions}
+      />
+
+      <PageContent>
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {!loading && runs.length === 0 ? (
+          <div className="text-center py-12">
+            <Clock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <div className="text-muted-foreground">No checks have run yet</div>
+          </div>
+        ) : (
+          <div className="bg-card border border-border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="px-4 py-3 font-medium">Started</th>
+                  <th className="px-4 py-3 font-medium">Trigger</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3 font-medium">Duration</th>
+                  <th className="px-4 py-3 font-medium text-right">Images</th>
+                  <th className="px-4 py-3 font-medium text-right">Updates</th>
+                  <th className="px-4 py-3 font-medium text-right">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => {
+                  const isExpanded = expandedId === run.id;
+                  const detail = details[run.id];
+                  return (
+                    <Fragment key={run.id}>
+                      <tr
+                        onClick={() => toggleRun(run.id)}
+                        className="border-b border-border hover:bg-accent cursor-pointer"
+                      >
+                        <td className="px-4 py-3 text-foreground whitespace-nowrap">
+                          <span className="inline-flex items-center">
+                            {isExpanded ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+                            {new Date(run.startedAt).toLocaleString()}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-foreground">{triggerLabels[run.trigger] || run.trigger}</td>
+                        <td className="px-4 py-3"><StatusBadge status={run.status} /></td>
+                        <td className="px-4 py-3 text-foreground">{formatDuration(run.durationMs)}</td>
+                        <td className="px-4 py-3 text-foreground text-right">{run.imageCount}</td>
+                        <td className={`px-4 py-3 text-right ${run.updatesFound > 0 ? 'text-orange-600 dark:text-orange-400 font-semibold' : 'text-foreground'}`}>{run.updatesFound}</td>
+                        <td className={`px-4 py-3 text-right ${run.errors > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-foreground'}`}>{run.errors}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-border bg-muted/40">
+                          <td colSpan={7} className="px-4 py-3">
+                            {run.error && (
+                              <div className="flex items-center text-red-600 dark:text-red-400 mb-2">
+                                <AlertCircle className="w-4 h-4 mr-2" />
+                                {run.error}
+                              </div>
+                            )}
+                            {!detail ? (
+                              <div className="text-muted-foreground">Loading results...</div>
+                            ) : detail.results.length === 0 ? (
+                              <div className="text-muted-foreground">No images were checked in this run</div>
+                            ) : (
+                              <ul className="space-y-1">
+                                {detail.results.map((result, index) => (
+                                  <li key={index} className="flex flex-wrap items-center justify-between gap-2">
+                                    <span className="text-foreground">
+                                      {result.name}
+                                      <span className="text-muted-foreground ml-2 font-mono text-xs">
+                                        {result.image}:{result.tag}{result.platform ? ` (${result.platform})` : ''}
+                                      </span>
+                                    </span>
+                                    <span className="text-xs">{resultLabel(result)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {runs.length < total && (
+          <div className="text-center">
+            <button
+              onClick={() => fetchRuns(runs.length)}
+              disabled={loading}
+              className="px-4 py-2 rounded-lg border border-border hover:bg-accent transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </PageContent>
+    </div>
+  );
+}
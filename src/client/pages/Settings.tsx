@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Save, Clock, ToggleLeft, ToggleRight, Settings as SettingsIcon, Bell, User, Key } from 'lucide-react';
+import { Save, Clock, ToggleLeft, ToggleRight, Settings as SettingsIcon, Bell, User, Key, Server } from 'lucide-react';
 import { CronConfig, NotificationConfig } from '../types';
 import { NotificationSettings } from '../components/NotificationSettings';
+import { RegistryCredentialsSettings } from '../components/RegistryCredentialsSettings';
+import { SigningKeysSettings } from '../components/SigningKeysSettings';
 import { ThemeToggle } from '../components/ThemeToggle';
 import { PageHeader } from '../components/layout/PageHeader';
 import { PageContent } from '../components/layout/PageContent';
@@ -12,12 +14,12 @@ interface SettingsProps {
   onUpdateCronConfig: (config: Partial<CronConfig>) => Promise<void>;
   notificationConfig: NotificationConfig;
   onUpdateNotificationConfig: (config: Partial<NotificationConfig>) => Promise<void>;
-  initialTab?: 'general' | 'notifications' | 'authentication';
+  initialTab?: 'general' | 'notifications' | 'registries' | 'authentication';
 }
 
 export function Settings({ cronConfig, onUpdateCronConfig, notificationConfig, onUpdateNotificationConfig, initialTab = 'general' }: SettingsProps) {
   const { user, changePassword } = useAuth();
-  const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'authentication'>(initialTab);
+  const [activeTab, setActiveTab] = useState<'general' | 'notifications' | 'registries' | 'authentication'>(initialTab);
   const [schedule, setSchedule] = useState(cronConfig.schedule);
   const [enabled, setEnabled] = useState(cronConfig.enabled);
   const [timezone, setTimezone] = useState(cronConfig.timezone || 'UTC');
@@ -184,6 +186,12 @@ export function Settings({ cronConfig, onUpdateCronConfig, notificationConfig, o
       icon: Bell,
       description: 'Apprise and notification triggers'
     },
+    {
+      id: 'registries' as const,
+      label: 'Registries',
+      icon: Server,
+      description: 'Registry credentials for private images'
+    },
     {
       id: 'authentication' as const,
       label: 'Authentication',
@@ -262,7 +270,7 @@ export function Settings({ cronConfig, onUpdateCronConfig, notificationConfig, o
                   <>
                     <br />
                     <span className="text-red-600">
-                      Note: Be aware that running the checks too often can cause rate limiting for Docker Hub hosted images. You can increase the rate limit from 100 to 200 pulls/6hr (or unlimited with Pro account) by adding your Docker credentials to the Docker environment variables DOCKERHUB_USERNAME and DOCKERHUB_PASSWORD
+                      Note: Be aware that running the checks too often can cause rate limiting for Docker Hub hosted images. You can increase the rate limit from 100 to 200 pulls/6hr (or unlimited with Pro account) by adding your Docker Hub credentials in the Registries tab (or the DOCKERHUB_USERNAME and DOCKERHUB_PASSWORD environment variables)
                     </span>
                   </>
                 )}
@@ -437,6 +445,13 @@ export function Settings({ cronConfig, onUpdateCronConfig, notificationConfig, o
         />
       )}
 
+      {activeTab === 'registries' && (
+        <div className="space-y-8">
+          <RegistryCredentialsSettings />
+          <SigningKeysSettings />
+        </div>
+      )}
+
       {activeTab === 'authentication' && (
         <div className="space-y-6">
           <div>
@@ -9,6 +9,8 @@ import { cronRouter } from './routes/cron';
 import { notificationsRouter } from './routes/notifications';
 import { notificationConfigRouter } from './routes/notificationConfig';
 import { adminRouter } from './routes/admin';
+import { registryCredentialsRouter } from './routes/registryCredentials';
+import { signingKeysRouter } from './routes/signingKeys';
 import { InitService } from './services/initService';
 import { agentsRouter } from '../agent/server/routes/agents';
 import http from 'http';
@@ -60,6 +62,8 @@ app.use('/api/cron', authMiddleware, cronRouter);
 app.use('/api/notifications', authMiddleware, notificationsRouter);
 app.use('/api/notification-config', authMiddleware, notificationConfigRouter);
 app.use('/api/admin', authMiddleware, adminRouter);
+app.use('/api/registry-credentials', authMiddleware, registryCredentialsRouter);
+app.use('/api/signing-keys', authMiddleware, signingKeysRouter);
 app.use('/api/agents', authMiddleware, agentsRouter);
 
 // Serve static files (CSS, JS, images) - these are needed for the login page
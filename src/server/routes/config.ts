@@ -1,9 +1,83 @@
 import express from 'express';
 import { ConfigService } from '../services/configService';
-import { ContainerRegistry } from '../types';
+import { ContainerRegistry, UpdatePolicy, VersionScheme } from '../types';
+import { parseImageReference, formatImageReference, ImageReferenceError } from '../../shared/imageReference';
+import { normalizePlatformString, PlatformError } from '../../shared/platform';
+import { normalizeTagPattern, TagPatternError } from '../../shared/tagPattern';
+import { SignatureService } from '../services/signatureService';
 
 const router = express.Router();
 
+// Normalize an "image[:tag][@digest]" imagePath into separate imagePath, tag and pinned digest fields,
+// and the optional target platform into "os/arch[/variant]" form.
+// Returns an error message when the reference or platform is not valid.
+function normalizeContainerReference(container: ContainerRegistry): string | undefined {
+  try {
+    const reference = parseImageReference(container.imagePath);
+    container.imagePath = reference.name;
+    container.tag = container.tag || reference.tag || 'latest';
+    if (container.digest !== undefined && container.digest !== null && typeof container.digest !== 'string') {
+      return 'Invalid digest format';
+    }
+    container.digest = (container.digest || '').trim() || reference.digest;
+    // Validate an explicitly supplied tag and digest against the same grammar
+    const normalized = parseImageReference(formatImageReference({ name: container.imagePath, tag: container.tag, digest: container.digest }));
+    container.digest = normalized.digest?.toLowerCase();
+    if (container.platform !== undefined && container.platform !== null && typeof container.platform !== 'string') {
+      return 'Invalid platform format';
+    }
+    container.platform = normalizePlatformString(container.platform);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ImageReferenceError || error instanceof PlatformError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+const UPDATE_POLICIES: UpdatePolicy[] = ['patch', 'minor', 'any'];
+const VERSION_SCHEMES: VersionScheme[] = ['semver', 'calver', 'date', 'build'];
+
+// Validate the optional update policy, version scheme and tag pattern fields; returns an error message when invalid
+function normalizeVersionTracking(container: ContainerRegistry): string | undefined {
+  if (container.updatePolicy !== undefined && container.updatePolicy !== null && !UPDATE_POLICIES.includes(container.updatePolicy)) {
+    return `Invalid update policy (expected one of: ${UPDATE_POLICIES.join(', ')})`;
+  }
+  if (container.includePrerelease !== undefined && container.includePrerelease !== null && typeof container.includePrerelease !== 'boolean') {
+    return 'Invalid includePrerelease value (expected true or false)';
+  }
+  // 'any' without prereleases is the default and is stored as empty
+  container.updatePolicy = container.updatePolicy && container.updatePolicy !== 'any' ? container.updatePolicy : undefined;
+  container.includePrerelease = container.includePrerelease || undefined;
+  if (container.versionScheme !== undefined && container.versionScheme !== null && !VERSION_SCHEMES.includes(container.versionScheme)) {
+    return `Invalid version scheme (expected one of: ${VERSION_SCHEMES.join(', ')})`;
+  }
+  // semver is the default and is stored as empty
+  container.versionScheme = container.versionScheme && container.versionScheme !== 'semver' ? container.versionScheme : undefined;
+  if (container.tagPattern !== undefined && container.tagPattern !== null && typeof container.tagPattern !== 'string') {
+    return 'Invalid tag pattern format';
+  }
+  try {
+    container.tagPattern = normalizeTagPattern(container.tagPattern);
+  } catch (error) {
+    if (error instanceof TagPatternError) {
+      return error.message;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+// Validate the optional cosign public key; returns an error message when invalid
+function normalizeSigningKey(container: ContainerRegistry): string | undefined {
+  if (container.cosignPublicKey !== undefined && container.cosignPublicKey !== null && typeof container.cosignPublicKey !== 'string') {
+    return 'Invalid cosign public key format';
+  }
+  container.cosignPublicKey = (container.cosignPublicKey || '').trim() || undefined;
+  return container.cosignPublicKey ? SignatureService.validatePublicKey(container.cosignPublicKey) : undefined;
+}
+
 // Get all containers
 router.get('/containers', async (req, res) => {
   try {
@@ -25,27 +99,32 @@ router.post('/containers', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields: name and imagePath are required' });
     }
     
-    // Normalize: if imagePath contains ":tag", split it
-    if (newContainer.imagePath.includes(':')) {
-      const [pathOnly, tagPart] = newContainer.imagePath.split(':');
-      newContainer.imagePath = pathOnly;
-      newContainer.tag = newContainer.tag || tagPart || 'latest';
+    // Validate imagePath format
+    if (typeof newContainer.imagePath !== 'string' || newContainer.imagePath.trim() === '') {
+      return res.status(400).json({ error: 'Invalid imagePath format' });
     }
-    // Set default tag if not provided
-    if (!newContainer.tag) {
-      newContainer.tag = 'latest';
+    
+    // Normalize: split ":tag" off the image reference (host ports are left intact)
+    const referenceError = normalizeContainerReference(newContainer);
+    if (referenceError) {
+      return res.status(400).json({ error: `Invalid image reference: ${referenceError}` });
     }
     
-    // Validate imagePath format (basic validation)
-    if (typeof newContainer.imagePath !== 'string' || newContainer.imagePath.trim() === '') {
-      return res.status(400).json({ error: 'Invalid imagePath format' });
+    const policyError = normalizeVersionTracking(newContainer);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const keyError = normalizeSigningKey(newContainer);
+    if (keyError) {
+      return res.status(400).json({ error: keyError });
     }
     
     const containers = await ConfigService.getContainers();
     
-    // Check for duplicates based on normalized imagePath and tag
+    // Check for duplicates based on normalized imagePath, tag and target platform
     const existingContainer = containers.find(
-      c => c.imagePath === newContainer.imagePath && c.tag === newContainer.tag
+      c => ConfigService.isSameContainer(c, newContainer)
     );
     
     if (existingContainer) {
@@ -60,6 +139,7 @@ router.post('/containers', async (req, res) => {
     const initialState = {
       image: newContainer.imagePath,
       tag: newContainer.tag || 'latest',
+      targetPlatform: newContainer.platform,
       currentSha: '',
       lastChecked: '', // Empty to indicate never checked
       hasUpdate: false,
@@ -92,20 +172,25 @@ router.put('/containers/:index', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields: name and imagePath are required' });
     }
     
-    // Normalize: if imagePath contains ":tag", split it
-    if (updatedContainer.imagePath.includes(':')) {
-      const [pathOnly, tagPart] = updatedContainer.imagePath.split(':');
-      updatedContainer.imagePath = pathOnly;
-      updatedContainer.tag = updatedContainer.tag || tagPart || 'latest';
+    // Validate imagePath format
+    if (typeof updatedContainer.imagePath !== 'string' || updatedContainer.imagePath.trim() === '') {
+      return res.status(400).json({ error: 'Invalid imagePath format' });
     }
-    // Set default tag if not provided
-    if (!updatedContainer.tag) {
-      updatedContainer.tag = 'latest';
+    
+    // Normalize: split ":tag" off the image reference (host ports are left intact)
+    const referenceError = normalizeContainerReference(updatedContainer);
+    if (referenceError) {
+      return res.status(400).json({ error: `Invalid image reference: ${referenceError}` });
     }
     
-    // Validate imagePath format (basic validation)
-    if (typeof updatedContainer.imagePath !== 'string' || updatedContainer.imagePath.trim() === '') {
-      return res.status(400).json({ error: 'Invalid imagePath format' });
+    const policyError = normalizeVersionTracking(updatedContainer);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const keyError = normalizeSigningKey(updatedContainer);
+    if (keyError) {
+      return res.status(400).json({ error: keyError });
     }
     
     const containers = await ConfigService.getContainers();
@@ -118,10 +203,10 @@ router.put('/containers/:index', async (req, res) => {
     containers[index] = updatedContainer;
     await ConfigService.saveContainers(containers);
 
-    // If tag or image changed, prune old state entry so stats don't double count
+    // If tag, image or platform changed, prune old state entry so stats don't double count
     try {
       const states = await ConfigService.getContainerState();
-      const pruned = states.filter(s => !(s.image === previous.imagePath && (s.tag || 'latest') === (previous.tag || 'latest')));
+      const pruned = states.filter(s => !ConfigService.matchesState(previous, s));
       if (pruned.length !== states.length) {
         await ConfigService.saveContainerState(pruned);
       }
@@ -158,7 +243,7 @@ router.delete('/containers/:index', async (req, res) => {
     try {
       const states = await ConfigService.getContainerState();
       const cleanedStates = states.filter(
-        s => !(s.image === deletedContainer.imagePath && s.tag === (deletedContainer.tag || 'latest'))
+        s => !ConfigService.matchesState(deletedContainer, s)
       );
       
       if (cleanedStates.length !== states.length) {
@@ -206,13 +291,30 @@ router.post('/containers/bulk', async (req, res) => {
           continue;
         }
 
+        const referenceError = normalizeContainerReference(container);
+        if (referenceError) {
+          errors.push(`Container ${i + 1}: Invalid image reference (${referenceError})`);
+          continue;
+        }
+
+        const policyError = normalizeVersionTracking(container);
+        if (policyError) {
+          errors.push(`Container ${i + 1}: ${policyError}`);
+          continue;
+        }
+
+        const keyError = normalizeSigningKey(container);
+        if (keyError) {
+          errors.push(`Container ${i + 1}: ${keyError}`);
+          continue;
+        }
+
         // Get existing containers for duplicate check and adding
         const existingContainers = await ConfigService.getContainers();
         
         // Check for duplicates
         const isDuplicate = existingContainers.some(existing => 
-          existing.imagePath === container.imagePath && 
-          existing.tag === (container.tag || 'latest')
+          ConfigService.isSameContainer(existing, container)
         );
 
         if (isDuplicate) {
@@ -224,7 +326,14 @@ router.post('/containers/bulk', async (req, res) => {
         const newContainer: ContainerRegistry = {
           name: container.name,
           imagePath: container.imagePath,
-          tag: container.tag || 'latest'
+          tag: container.tag || 'latest',
+          platform: container.platform,
+          digest: container.digest,
+          updatePolicy: container.updatePolicy,
+          includePrerelease: container.includePrerelease,
+          tagPattern: container.tagPattern,
+          versionScheme: container.versionScheme,
+          cosignPublicKey: container.cosignPublicKey
         };
 
         // Add container
@@ -236,6 +345,7 @@ router.post('/containers/bulk', async (req, res) => {
         const initialState = {
           image: newContainer.imagePath,
           tag: newContainer.tag || 'latest',
+          targetPlatform: newContainer.platform,
           currentSha: '',
           lastChecked: '', // Empty to indicate never checked
           hasUpdate: false,
@@ -275,7 +385,7 @@ router.get('/containers/export', async (req, res) => {
     
     // Generate export text
     const exportText = containers
-      .map(container => `${container.imagePath}:${container.tag || 'latest'}`)
+      .map(container => formatImageReference({ name: container.imagePath, tag: container.tag || 'latest', digest: container.digest }))
       .join('\n');
 
     res.setHeader('Content-Type', 'text/plain');
@@ -290,7 +400,7 @@ router.get('/containers/export', async (req, res) => {
 // Dismiss update for a specific container
 router.post('/containers/dismiss-update', async (req, res) => {
   try {
-    const { imagePath, tag } = req.body;
+    const { imagePath, tag, platform } = req.body;
     
     if (!imagePath || !tag) {
       return res.status(400).json({ error: 'imagePath and tag are required' });
@@ -298,7 +408,7 @@ router.post('/containers/dismiss-update', async (req, res) => {
     
     const currentStates = await ConfigService.getContainerState();
     const stateIndex = currentStates.findIndex(
-      state => state.image === imagePath && state.tag === tag
+      state => ConfigService.isSameState(state, { image: imagePath, tag, targetPlatform: platform })
     );
     
     if (stateIndex === -1) {
@@ -1,6 +1,7 @@
 import express from 'express';
 import { ConfigService } from '../services/configService';
 import { CronService } from '../services/cronService';
+import { CheckJobService } from '../services/checkJobService';
 
 const router = express.Router();
 
@@ -95,12 +96,15 @@ router.get('/status', async (req, res) => {
   }
 });
 
-// Test cron job manually
+// Test cron job manually. Runs as a manual check job like /api/registry/check and returns it right away
 router.post('/test', async (req, res) => {
   try {
     console.log('Manual cron test triggered');
-    await CronService.runManualCheck();
-    res.json({ message: 'Manual cron test completed successfully' });
+    const job = CronService.startManualCheck();
+    if (!job) {
+      return res.status(409).json({ error: 'A registry check is already running', job: CheckJobService.getActiveJob() });
+    }
+    res.status(202).json(job);
   } catch (error) {
     console.error('Error running manual cron test:', error);
     res.status(500).json({ error: 'Failed to run manual cron test' });
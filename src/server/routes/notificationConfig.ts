@@ -1,6 +1,7 @@
 import express from 'express';
 import { ConfigService } from '../services/configService';
 import { AppriseService } from '../services/appriseService';
+import { isCheckErrorCode } from '../../shared/checkErrors';
 
 const router = express.Router();
 
@@ -33,6 +34,16 @@ router.put('/config', async (req, res) => {
       }
     }
 
+    // Optional filter for error notifications; empty means every error code notifies
+    const errorCodes = config.triggers.errorCodes;
+    if (errorCodes !== undefined && (!Array.isArray(errorCodes) || !errorCodes.every(isCheckErrorCode))) {
+      return res.status(400).json({ error: 'Invalid configuration: errorCodes must be a list of check error codes' });
+    }
+
+    const unsignedUpdates = config.triggers.unsignedUpdates;
+    if (unsignedUpdates !== undefined && unsignedUpdates !== 'flag' && unsignedUpdates !== 'suppress') {
+      return res.status(400).json({ error: 'Invalid configuration: unsignedUpdates must be "flag" or "suppress"' });
+    }
 
     await ConfigService.saveNotificationConfig(config);
     res.json({ message: 'Notification configuration updated successfully' });
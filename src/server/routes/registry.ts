@@ -3,6 +3,11 @@ import { ConfigService } from '../services/configService';
 import { RegistryService } from '../services/registryService';
 import { NotificationService } from '../services/notificationService';
 import { CronService } from '../services/cronService';
+import { CheckJobService } from '../services/checkJobService';
+import { CheckRunService } from '../services/checkRunService';
+import { CheckJobEvent } from '../types';
+import { describePlatformChanges } from '../../shared/platform';
+import { CHECK_ERROR_LABELS } from '../../shared/checkErrors';
 
 const router = express.Router();
 
@@ -17,19 +22,224 @@ router.get('/states', async (req, res) => {
   }
 });
 
-// Check all registries manually
-router.post('/check', async (req, res) => {
+// Docker Hub pull budget (from the ratelimit-* headers) and the deferral threshold for scheduled runs
+router.get('/rate-limit', async (_req, res) => {
+  try {
+    const status = await RegistryService.getRateLimitStatus();
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching rate limit status:', error);
+    res.status(500).json({ error: 'Failed to fetch rate limit status' });
+  }
+});
+
+// Per-registry circuit breakers: hosts skipped after repeated failures and when they are probed again
+router.get('/circuit-breakers', (_req, res) => {
+  res.json({
+    threshold: RegistryService.getCircuitBreakerThreshold(),
+    cooldownSeconds: RegistryService.getCircuitBreakerCooldownMs() / 1000,
+    breakers: RegistryService.getCircuitBreakers(),
+  });
+});
+
+// Close a registry's breaker so its images are checked again on the next run
+router.post('/circuit-breakers/:host/reset', (req, res) => {
+  if (!RegistryService.resetCircuitBreaker(req.params.host)) {
+    return res.status(404).json({ error: 'No circuit breaker for this registry' });
+  }
+  res.json({ message: 'Circuit breaker reset' });
+});
+
+// Check all registries manually. Starts a check job and returns it right away; follow it on /check/events
+router.post('/check', async (_req, res) => {
   try {
     console.log('Manual registry check requested');
-    await CronService.runManualCheck();
-    res.json({ message: 'Registry check completed' });
+    const job = CronService.startManualCheck();
+    if (!job) {
+      return res.status(409).json({ error: 'A registry check is already running', job: CheckJobService.getActiveJob() });
+    }
+    res.status(202).json(job);
   } catch (error) {
     console.error('Error during manual registry check:', error);
     res.status(500).json({ error: 'Failed to check registries' });
   }
 });
 
-// Check a specific container
+// Server-Sent Events stream of check jobs: the running job (or null) on connect, then job start, per-image progress and finish
+router.get('/check/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Keep reverse proxies from buffering the stream
+  });
+
+  const send = (event: CheckJobEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  send({ type: 'snapshot', job: CheckJobService.getActiveJob() });
+  const unsubscribe = CheckJobService.subscribe(send);
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
+// A check job, running or recently finished
+router.get('/check/jobs/:id', (req, res) => {
+  const job = CheckJobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Check job not found' });
+  }
+  res.json(job);
+});
+
+// Cancel a running check job; images already being checked finish first
+router.post('/check/jobs/:id/cancel', (req, res) => {
+  const job = CheckJobService.cancelJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'No running check job with that id' });
+  }
+  res.json(job);
+});
+
+// Every distinct digest seen for an image/tag/platform (?image=&tag=&platform=), newest first
+router.get('/digests', async (req, res) => {
+  try {
+    const image = typeof req.query.image === 'string' ? req.query.image.trim() : '';
+    const tag = typeof req.query.tag === 'string' && req.query.tag.trim() ? req.query.tag.trim() : 'latest';
+    const platform = typeof req.query.platform === 'string' ? req.query.platform.trim() : '';
+    if (!image) {
+      return res.status(400).json({ error: 'image is required' });
+    }
+    const timeline = await ConfigService.getDigestTimeline(image, tag, platform);
+    res.json(timeline);
+  } catch (error) {
+    console.error('Error fetching digest history:', error);
+    res.status(500).json({ error: 'Failed to fetch digest history' });
+  }
+});
+
+// Layers, size and labels that changed between the monitored and the latest digest (?image=&tag=&platform=)
+router.get('/diff', async (req, res) => {
+  try {
+    const image = typeof req.query.image === 'string' ? req.query.image.trim() : '';
+    const tag = typeof req.query.tag === 'string' && req.query.tag.trim() ? req.query.tag.trim() : 'latest';
+    const platform = typeof req.query.platform === 'string' ? req.query.platform.trim() : '';
+    if (!image) {
+      return res.status(400).json({ error: 'image is required' });
+    }
+    const states = await ConfigService.getContainerState();
+    const state = states.find(s => ConfigService.isSameState(s, { image, tag, targetPlatform: platform || undefined }));
+    if (!state) {
+      return res.status(404).json({ error: 'Image has not been checked yet' });
+    }
+    if (!state.currentSha || !state.latestSha) {
+      return res.status(400).json({ error: 'Both a monitored and a latest digest are needed to compare' });
+    }
+    const diff = await RegistryService.compareImageDigests(state);
+    res.json(diff);
+  } catch (error) {
+    console.error('Error comparing image digests:', error);
+    res.status(500).json({ error: 'Failed to compare digests' });
+  }
+});
+
+// SBOMs, provenance and other artifacts attached to an image's latest digest (?image=&tag=&platform=)
+router.get('/referrers', async (req, res) => {
+  try {
+    const image = typeof req.query.image === 'string' ? req.query.image.trim() : '';
+    const tag = typeof req.query.tag === 'string' && req.query.tag.trim() ? req.query.tag.trim() : 'latest';
+    const platform = typeof req.query.platform === 'string' ? req.query.platform.trim() : '';
+    if (!image) {
+      return res.status(400).json({ error: 'image is required' });
+    }
+    const states = await ConfigService.getContainerState();
+    const state = states.find(s => ConfigService.isSameState(s, { image, tag, targetPlatform: platform || undefined }));
+    if (!state?.latestSha) {
+      return res.status(404).json({ error: 'Image has not been checked yet' });
+    }
+    const referrers = await RegistryService.getReferrers(state);
+    res.json(referrers);
+  } catch (error) {
+    console.error('Error fetching referrers:', error);
+    res.status(500).json({ error: 'Failed to fetch attached artifacts' });
+  }
+});
+
+// Download an artifact attached to an image's latest digest, e.g. its SBOM
+// (?image=&tag=&platform=&digest=<artifact digest>&layer=<index, default 0>)
+router.get('/referrers/download', async (req, res) => {
+  try {
+    const image = typeof req.query.image === 'string' ? req.query.image.trim() : '';
+    const tag = typeof req.query.tag === 'string' && req.query.tag.trim() ? req.query.tag.trim() : 'latest';
+    const platform = typeof req.query.platform === 'string' ? req.query.platform.trim() : '';
+    const digest = typeof req.query.digest === 'string' ? req.query.digest.trim().toLowerCase() : '';
+    const layer = parseInt(String(req.query.layer ?? '0'), 10);
+    if (!image || !digest) {
+      return res.status(400).json({ error: 'image and digest are required' });
+    }
+    if (isNaN(layer) || layer < 0) {
+      return res.status(400).json({ error: 'Invalid layer index' });
+    }
+    const states = await ConfigService.getContainerState();
+    const state = states.find(s => ConfigService.isSameState(s, { image, tag, targetPlatform: platform || undefined }));
+    if (!state?.latestSha) {
+      return res.status(404).json({ error: 'Image has not been checked yet' });
+    }
+    // Only artifacts attached to the monitored image can be downloaded
+    const artifact = (await RegistryService.getReferrers(state)).artifacts.find(a => a.digest === digest);
+    if (!artifact) {
+      return res.status(404).json({ error: 'Artifact not found for this image' });
+    }
+
+    const content = await RegistryService.downloadReferrer(state, artifact, layer);
+    if (!content) {
+      return res.status(404).json({ error: `Artifact has no layer ${layer}` });
+    }
+    const name = image.split('/').pop() || 'image';
+    // Registry media types (e.g. application/spdx+json) are not served as-is, so nothing renders in the browser
+    const isJson = content.mediaType.includes('json');
+    res.setHeader('Content-Type', isJson ? 'application/json' : 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}-${artifact.kind}-${digest.replace(/^sha256:/, '').substring(0, 12)}.${isJson ? 'json' : 'bin'}"`);
+    res.send(content.data);
+  } catch (error) {
+    console.error('Error downloading artifact:', error);
+    res.status(500).json({ error: 'Failed to download artifact' });
+  }
+});
+
+// Run history, newest first (?limit=, default 50, max 200; ?offset=)
+router.get('/runs', async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+    const history = await CheckRunService.getRuns(limit, offset);
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching check runs:', error);
+    res.status(500).json({ error: 'Failed to fetch check runs' });
+  }
+});
+
+// A run with its per-image results
+router.get('/runs/:id', async (req, res) => {
+  try {
+    const run = await CheckRunService.getRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Check run not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching check run:', error);
+    res.status(500).json({ error: 'Failed to fetch check run' });
+  }
+});
+
+// Check a specific container. Single-image checks are not check jobs and are not recorded in the run history, which
+// lists full runs over every monitored image; they save only the checked image's state so a running job is not undone.
 router.post('/check/:index', async (req, res) => {
   try {
     const index = parseInt(req.params.index);
@@ -45,7 +255,7 @@ router.post('/check/:index', async (req, res) => {
     }
     
     const container = containers[index];
-    const result = await RegistryService.checkRegistry(container);
+    const result = await RegistryService.checkRegistryCached(container);
     
     // Update the state for this specific container
     const currentStates = await ConfigService.getContainerState();
@@ -53,12 +263,12 @@ router.post('/check/:index', async (req, res) => {
     
     // Get the updated state to check if it's new
     const updatedState = updatedStates.find(
-      s => s.image === result.image && s.tag === result.tag
+      s => ConfigService.isSameState(s, result)
     );
     
     // Check if this is a new update (only for existing containers)
     const previousState = currentStates.find(
-      s => s.image === result.image && s.tag === result.tag
+      s => ConfigService.isSameState(s, result)
     );
     
     // Only create notification if:
@@ -67,19 +277,32 @@ router.post('/check/:index', async (req, res) => {
     // 3. SHA has changed AND
     // 4. Not marked as new container
     const wasNeverChecked = !previousState || !previousState.currentSha || previousState.currentSha === '';
-    if (previousState && !wasNeverChecked && !RegistryService.compareShas(result.latestSha, previousState.currentSha) && !updatedState?.isNew) {
+    if (updatedState?.error) {
+      // Failed checks notify when the image starts failing or fails for a different reason
+      if (!previousState?.error || (previousState.errorCode !== undefined && previousState.errorCode !== updatedState.errorCode)) {
+        const code = updatedState.errorCode || 'network';
+        await NotificationService.createCheckErrorNotification(container.name, result.image, result.tag, code, updatedState.statusMessage || CHECK_ERROR_LABELS[code], updatedState.errorDetail);
+      }
+    } else if (previousState && !wasNeverChecked && !RegistryService.compareShas(result.latestSha, previousState.currentSha) && !updatedState?.isNew) {
       await NotificationService.createUpdateNotification(
         container.name,
         result.image,
         result.tag,
-        true // This is a new update since SHA changed
+        true, // This is a new update since SHA changed
+        undefined,
+        describePlatformChanges(updatedState?.platformDigests, updatedState?.changedPlatforms) || undefined,
+        updatedState?.releaseNotes,
+        updatedState?.signature,
+        updatedState?.vulnerabilities
       );
       console.log(`Update notification created for ${container.name}`);
     } else if (wasNeverChecked) {
       console.log(`Skipping notification for first check of ${container.name} (establishing baseline)`);
     }
     
-    await ConfigService.saveContainerState(updatedStates);
+    if (updatedState) {
+      await ConfigService.saveContainerState([updatedState]);
+    }
     
     res.json(result);
   } catch (error) {
@@ -92,18 +315,23 @@ router.post('/check/:index', async (req, res) => {
 router.post('/reset/:image/:tag', async (req, res) => {
   try {
     const { image, tag } = req.params;
+    // Optional target platform, for images monitored on more than one platform
+    const platform = typeof req.query.platform === 'string' ? req.query.platform : req.body?.platform;
     
     const states = await ConfigService.getContainerState();
     const normalizedTag = (tag || 'latest');
-    const stateIndex = states.findIndex(s => s.image === image && (s.tag || 'latest') === normalizedTag);
+    const stateIndex = states.findIndex(s =>
+      ConfigService.isSameState(s, { image, tag: normalizedTag, targetPlatform: platform })
+    );
     
     if (stateIndex === -1) {
       return res.status(404).json({ error: 'Container state not found' });
     }
     
-    // True baseline reset: accept the current online SHA as baseline if available
+    // True baseline reset: accept the current online SHA as baseline if available.
+    // Pinned containers keep their pinned digest as the baseline; the reset only dismisses the update.
     const state = states[stateIndex];
-    if (state.latestSha && state.latestSha !== '') {
+    if (!state.pinnedDigest && state.latestSha && state.latestSha !== '') {
       state.currentSha = state.latestSha;
     }
     state.hasUpdate = false;
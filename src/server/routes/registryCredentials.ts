@@ -0,0 +1,112 @@
+import express from 'express';
+import { CredentialService } from '../services/credentialService';
+import { RegistryService } from '../services/registryService';
+
+const router = express.Router();
+
+// Validate the shared host/username fields; returns an error message when invalid
+function validateCredentialInput(body: any): string | undefined {
+  if (!body.host || typeof body.host !== 'string' || !body.username || typeof body.username !== 'string') {
+    return 'Missing required fields: host and username are required';
+  }
+  if (!CredentialService.HOST_PATTERN.test(CredentialService.normalizeHost(body.host))) {
+    return 'Invalid registry host (expected e.g. "ghcr.io" or "registry.local:5000")';
+  }
+  if (body.secret !== undefined && typeof body.secret !== 'string') {
+    return 'Invalid secret format';
+  }
+  return undefined;
+}
+
+// Get all registry credentials (secrets are never returned)
+router.get('/', async (_req, res) => {
+  try {
+    const credentials = await CredentialService.listCredentials();
+    res.json(credentials);
+  } catch (error) {
+    console.error('Error fetching registry credentials:', error);
+    res.status(500).json({ error: 'Failed to fetch registry credentials' });
+  }
+});
+
+// Add registry credentials
+router.post('/', async (req, res) => {
+  try {
+    const validationError = validateCredentialInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (!req.body.secret) {
+      return res.status(400).json({ error: 'A token or password is required' });
+    }
+
+    const existing = await CredentialService.listCredentials();
+    const host = CredentialService.normalizeHost(req.body.host);
+    if (existing.some(c => c.host === host)) {
+      return res.status(400).json({ error: `Credentials for ${host} already exist` });
+    }
+
+    const credential = await CredentialService.createCredential(req.body);
+    // Tokens issued with the previous identity must not be reused
+    RegistryService.clearTokenCache();
+    res.status(201).json(credential);
+  } catch (error) {
+    console.error('Error adding registry credentials:', error);
+    res.status(500).json({ error: 'Failed to add registry credentials' });
+  }
+});
+
+// Update registry credentials (blank secret keeps the stored one)
+router.put('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid credential id' });
+    }
+
+    const validationError = validateCredentialInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await CredentialService.listCredentials();
+    const host = CredentialService.normalizeHost(req.body.host);
+    if (existing.some(c => c.host === host && c.id !== id)) {
+      return res.status(400).json({ error: `Credentials for ${host} already exist` });
+    }
+
+    const credential = await CredentialService.updateCredential(id, req.body);
+    if (!credential) {
+      return res.status(404).json({ error: 'Registry credentials not found' });
+    }
+
+    RegistryService.clearTokenCache();
+    res.json(credential);
+  } catch (error) {
+    console.error('Error updating registry credentials:', error);
+    res.status(500).json({ error: 'Failed to update registry credentials' });
+  }
+});
+
+// Delete registry credentials
+router.delete('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid credential id' });
+    }
+
+    const deleted = await CredentialService.deleteCredential(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Registry credentials not found' });
+    }
+
+    RegistryService.clearTokenCache();
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting registry credentials:', error);
+    res.status(500).json({ error: 'Failed to delete registry credentials' });
+  }
+});
+
+export { router as registryCredentialsRouter };
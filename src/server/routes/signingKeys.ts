@@ -0,0 +1,100 @@
+import express from 'express';
+import { CredentialService } from '../services/credentialService';
+import { SignatureService } from '../services/signatureService';
+
+const router = express.Router();
+
+// Validate the host/publicKey fields; returns an error message when invalid
+function validateSigningKeyInput(body: any): string | undefined {
+  if (!body.host || typeof body.host !== 'string' || !body.publicKey || typeof body.publicKey !== 'string') {
+    return 'Missing required fields: host and publicKey are required';
+  }
+  if (!CredentialService.HOST_PATTERN.test(CredentialService.normalizeHost(body.host))) {
+    return 'Invalid registry host (expected e.g. "ghcr.io" or "registry.local:5000")';
+  }
+  return SignatureService.validatePublicKey(body.publicKey);
+}
+
+// Get all registry signing keys
+router.get('/', async (_req, res) => {
+  try {
+    const keys = await SignatureService.listKeys();
+    res.json(keys);
+  } catch (error) {
+    console.error('Error fetching signing keys:', error);
+    res.status(500).json({ error: 'Failed to fetch signing keys' });
+  }
+});
+
+// Add a signing key for a registry host
+router.post('/', async (req, res) => {
+  try {
+    const validationError = validateSigningKeyInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await SignatureService.listKeys();
+    const host = CredentialService.normalizeHost(req.body.host);
+    if (existing.some(k => k.host === host)) {
+      return res.status(400).json({ error: `A signing key for ${host} already exists` });
+    }
+
+    const key = await SignatureService.createKey(req.body);
+    res.status(201).json(key);
+  } catch (error) {
+    console.error('Error adding signing key:', error);
+    res.status(500).json({ error: 'Failed to add signing key' });
+  }
+});
+
+// Update a signing key
+router.put('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid signing key id' });
+    }
+
+    const validationError = validateSigningKeyInput(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await SignatureService.listKeys();
+    const host = CredentialService.normalizeHost(req.body.host);
+    if (existing.some(k => k.host === host && k.id !== id)) {
+      return res.status(400).json({ error: `A signing key for ${host} already exists` });
+    }
+
+    const key = await SignatureService.updateKey(id, req.body);
+    if (!key) {
+      return res.status(404).json({ error: 'Signing key not found' });
+    }
+    res.json(key);
+  } catch (error) {
+    console.error('Error updating signing key:', error);
+    res.status(500).json({ error: 'Failed to update signing key' });
+  }
+});
+
+// Delete a signing key
+router.delete('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid signing key id' });
+    }
+
+    const deleted = await SignatureService.deleteKey(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Signing key not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting signing key:', error);
+    res.status(500).json({ error: 'Failed to delete signing key' });
+  }
+});
+
+export { router as signingKeysRouter };
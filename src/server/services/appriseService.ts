@@ -1,4 +1,4 @@
-import { NotificationConfig } from '../types';
+import { NotificationConfig, ReleaseNotes } from '../types';
 import packageJson from '../../../package.json';
 
 export interface AppriseChannel {
@@ -21,7 +21,9 @@ export class AppriseTemplates {
   })();
   private static readonly TITLE_PREFIX = '📡 Registry Radar';
   
-  static updateAvailable(containerName: string, image: string, tag: string, updatedDate?: string): { title: string; body: string } {
+  private static readonly MAX_RELEASE_NOTES_LENGTH = 1000;
+
+  static updateAvailable(containerName: string, image: string, tag: string, updatedDate?: string, platformChanges?: string, releaseNotes?: ReleaseNotes, signatureWarning?: string, vulnerabilitySummary?: string): { title: string; body: string } {
     const publicUrl = process.env.REGISTRY_RADAR_URL;
     console.log(`[AppriseTemplates] updateAvailable - REGISTRY_RADAR_URL: "${publicUrl}"`);
     const actionText = publicUrl 
@@ -32,13 +34,20 @@ export class AppriseTemplates {
       title: `${this.TITLE_PREFIX}: Update Available for Monitored Docker Image`,
       body: `Registry Radar has found an update to your monitored image ${image}:${tag}
 The new version was updated on ${updatedDate || 'unknown date'}
-
+${signatureWarning ? `⚠️ ${signatureWarning}\n` : ''}${vulnerabilitySummary ? `Vulnerabilities: ${vulnerabilitySummary}\n` : ''}${platformChanges ? `Platforms: ${platformChanges}\n` : ''}${releaseNotes ? this.releaseNotesSection(releaseNotes) : ''}
 ${actionText}
 
 ${this.BRAND_FOOTER}`
     };
   }
 
+  private static releaseNotesSection(releaseNotes: ReleaseNotes): string {
+    const body = releaseNotes.body && releaseNotes.body.length > this.MAX_RELEASE_NOTES_LENGTH
+      ? `${releaseNotes.body.substring(0, this.MAX_RELEASE_NOTES_LENGTH)}…`
+      : releaseNotes.body;
+    return `Release notes for ${releaseNotes.name || releaseNotes.tag}: ${releaseNotes.url}\n${body ? `${body}\n` : ''}`;
+  }
+
   static errorOccurred(errorMessage: string, container?: string): { title: string; body: string } {
     const publicUrl = process.env.REGISTRY_RADAR_URL;
     const actionText = publicUrl 
@@ -178,9 +187,13 @@ export class AppriseService {
     containerName: string,
     image: string,
     tag: string,
-    updatedDate?: string
+    updatedDate?: string,
+    platformChanges?: string,
+    releaseNotes?: ReleaseNotes,
+    signatureWarning?: string,
+    vulnerabilitySummary?: string
   ): Promise<boolean> {
-    const template = AppriseTemplates.updateAvailable(containerName, image, tag, updatedDate);
+    const template = AppriseTemplates.updateAvailable(containerName, image, tag, updatedDate, platformChanges, releaseNotes, signatureWarning, vulnerabilitySummary);
     return this.sendNotification(config, template.title, template.body, 'success');
   }
 
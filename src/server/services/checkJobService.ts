@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { CheckJob, CheckJobEvent, CheckJobResult, ContainerRegistry, ContainerState, RegistryCheckResult } from '../types';
+import { CheckRunOptions } from './registryService';
+import { CheckRunService } from './checkRunService';
+import { ConfigService } from './configService';
+
+type CheckJobRunner = (options: CheckRunOptions) => Promise<void>;
+type CheckJobListener = (event: CheckJobEvent) => void;
+
+// Runs registry checks as server-side jobs, one at a time, and broadcasts their progress to subscribers
+// (the Server-Sent Events stream). Recent jobs are kept in memory; every job is also recorded in the run history.
+export class CheckJobService {
+  private static readonly MAX_JOBS = 10;
+  private static jobs: Map<string, CheckJob> = new Map();
+  private static activeJobId: string | null = null;
+  private static controllers: Map<string, AbortController> = new Map();
+  private static listeners: Set<CheckJobListener> = new Set();
+
+  static getActiveJob(): CheckJob | null {
+    return this.activeJobId ? this.jobs.get(this.activeJobId) || null : null;
+  }
+
+  static getJob(id: string): CheckJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  static subscribe(listener: CheckJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static emit(event: CheckJobEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[CheckJob] Listener failed:', error);
+      }
+    }
+  }
+
+  private static label(container: ContainerRegistry): string {
+    return `${container.imagePath}:${container.tag || 'latest'}${container.platform ? ` (${container.platform})` : ''}`;
+  }
+
+  private static toJobResult(container: ContainerRegistry, result: RegistryCheckResult): CheckJobResult {
+    return {
+      name: container.name,
+      image: result.image,
+      tag: result.tag,
+      platform: result.targetPlatform,
+      hasUpdate: result.hasUpdate,
+      latestAvailableTag: result.latestAvailableTag,
+      error: result.error ? result.statusMessage || 'Check failed' : undefined,
+      errorCode: result.error ? result.errorCode : undefined,
+      deferred: result.deferred || undefined,
+    };
+  }
+
+  // Update flags come from the container states once the run is applied; a raw check result only has the digests
+  private static applyStates(job: CheckJob, states: ContainerState[]): void {
+    for (const result of job.results) {
+      if (result.error || result.deferred) continue;
+      const state = states.find(s => ConfigService.isSameState(s, { image: result.image, tag: result.tag, targetPlatform: result.platform }));
+      if (state) {
+        result.hasUpdate = Boolean(state.hasUpdate);
+        result.hasNewerTag = Boolean(state.hasNewerTag);
+        result.latestAvailableTag = state.latestAvailableTag;
+      }
+    }
+  }
+
+  // Start a job running `run` in the background; null when another job is still running
+  static startJob(trigger: CheckJob['trigger'], run: CheckJobRunner): CheckJob | null {
+    if (this.getActiveJob()) {
+      return null;
+    }
+
+    const job: CheckJob = {
+      id: randomUUID(),
+      trigger,
+      status: 'running',
+      total: 0,
+      completed: 0,
+      current: [],
+      results: [],
+      startedAt: new Date().toISOString(),
+    };
+    const controller = new AbortController();
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, controller);
+    this.activeJobId = job.id;
+
+    // Drop the oldest finished jobs
+    for (const id of this.jobs.keys()) {
+      if (this.jobs.size <= this.MAX_JOBS) break;
+      if (id !== job.id) this.jobs.delete(id);
+    }
+
+    console.log(`[CheckJob] Started ${trigger} check ${job.id}`);
+    this.emit({ type: 'started', job });
+    const recorded = CheckRunService.recordStart(job).catch(error => {
+      console.error(`[CheckJob] Failed to record check ${job.id}:`, error);
+    });
+
+    const emitProgress = (result?: CheckJobResult) => {
+      this.emit({ type: 'progress', jobId: job.id, completed: job.completed, total: job.total, current: [...job.current], result });
+    };
+
+    run({
+      signal: controller.signal,
+      onRunStart: total => {
+        job.total = total;
+        emitProgress();
+      },
+      onCheckStart: container => {
+        job.current.push(this.label(container));
+        emitProgress();
+      },
+      onCheckComplete: (container, result) => {
+        const position = job.current.indexOf(this.label(container));
+        if (position !== -1) {
+          job.current.splice(position, 1);
+        }
+        const jobResult = this.toJobResult(container, result);
+        job.completed++;
+        job.results.push(jobResult);
+        emitProgress(jobResult);
+      },
+      onStatesUpdated: states => this.applyStates(job, states),
+    }).then(() => {
+      job.status = controller.signal.aborted ? 'cancelled' : 'completed';
+    }).catch(error => {
+      console.error(`[CheckJob] Check ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    }).finally(() => {
+      job.current = [];
+      job.finishedAt = new Date().toISOString();
+      this.controllers.delete(job.id);
+      if (this.activeJobId === job.id) {
+        this.activeJobId = null;
+      }
+      console.log(`[CheckJob] Check ${job.id} ${job.status} (${job.completed}/${job.total} images)`);
+      // Announce the finish once the run history has it, so clients reloading the history see the final row
+      recorded.then(() => CheckRunService.recordFinish(job)).catch(error => {
+        console.error(`[CheckJob] Failed to record the result of check ${job.id}:`, error);
+      }).finally(() => {
+        this.emit({ type: 'finished', job });
+      });
+    });
+
+    return job;
+  }
+
+  // Stop starting new checks for a running job; checks already in flight finish first. Null when the job is not running.
+  static cancelJob(id: string): CheckJob | null {
+    const job = this.jobs.get(id);
+    const controller = this.controllers.get(id);
+    if (!job || !controller || job.status !== 'running') {
+      return null;
+    }
+    if (!controller.signal.aborted) {
+      console.log(`[CheckJob] Cancelling check ${id}`);
+      job.cancelRequested = true;
+      controller.abort();
+      this.emit({ type: 'cancelling', job });
+    }
+    return job;
+  }
+}
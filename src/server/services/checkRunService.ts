@@ -0,0 +1,92 @@
+import { CheckJob, CheckJobResult, CheckRun, CheckRunDetail } from '../types';
+import { DatabaseService } from './databaseService';
+
+// Run history: every check job is recorded with its outcome per image
+export class CheckRunService {
+  private static readonly MAX_RUNS = 500;
+
+  private static mapRun(row: any): CheckRun {
+    return {
+      id: row.id,
+      trigger: row.trigger,
+      status: row.status,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+      durationMs: row.duration_ms ?? undefined,
+      imageCount: row.image_count || 0,
+      updatesFound: row.updates_found || 0,
+      errors: row.error_count || 0,
+      error: row.error || undefined,
+    };
+  }
+
+  private static mapResult(row: any): CheckJobResult {
+    return {
+      name: row.container_name || row.image,
+      image: row.image,
+      tag: row.tag,
+      platform: row.platform || undefined,
+      hasUpdate: Boolean(row.has_update),
+      hasNewerTag: Boolean(row.has_newer_tag),
+      latestAvailableTag: row.latest_available_tag || undefined,
+      error: row.error || undefined,
+      errorCode: row.error_code || undefined,
+      deferred: Boolean(row.deferred) || undefined,
+    };
+  }
+
+  static async recordStart(job: CheckJob): Promise<void> {
+    await DatabaseService.addCheckRun({
+      id: job.id,
+      trigger: job.trigger,
+      status: job.status,
+      started_at: job.startedAt,
+    });
+  }
+
+  static async recordFinish(job: CheckJob): Promise<void> {
+    const finishedAt = job.finishedAt || new Date().toISOString();
+    await DatabaseService.finishCheckRun(job.id, {
+      status: job.status,
+      finished_at: finishedAt,
+      duration_ms: Math.max(0, Date.parse(finishedAt) - Date.parse(job.startedAt)),
+      image_count: job.results.length,
+      updates_found: job.results.filter(result => !result.error && !result.deferred && (result.hasUpdate || result.hasNewerTag)).length,
+      error_count: job.results.filter(result => result.error).length,
+      error: job.error,
+    }, job.results.map(result => ({
+      container_name: result.name,
+      image: result.image,
+      tag: result.tag,
+      platform: result.platform,
+      has_update: result.hasUpdate,
+      has_newer_tag: Boolean(result.hasNewerTag),
+      latest_available_tag: result.latestAvailableTag,
+      error: result.error,
+      error_code: result.errorCode,
+      deferred: Boolean(result.deferred),
+    })));
+    await DatabaseService.pruneCheckRuns(this.MAX_RUNS);
+  }
+
+  static async getRuns(limit: number, offset: number): Promise<{ runs: CheckRun[]; total: number }> {
+    const [rows, total] = await Promise.all([
+      DatabaseService.getCheckRuns(limit, offset),
+      DatabaseService.countCheckRuns(),
+    ]);
+    return { runs: rows.map((row: any) => this.mapRun(row)), total };
+  }
+
+  static async getRun(id: string): Promise<CheckRunDetail | null> {
+    const row = await DatabaseService.getCheckRun(id);
+    if (!row) {
+      return null;
+    }
+    const results = await DatabaseService.getCheckRunResults(id);
+    return { ...this.mapRun(row), results: results.map((result: any) => this.mapResult(result)) };
+  }
+
+  static async markInterruptedRuns(): Promise<void> {
+    await DatabaseService.markInterruptedCheckRuns();
+  }
+}
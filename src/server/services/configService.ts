@@ -1,13 +1,40 @@
-import { ContainerRegistry, ContainerState, CronConfig, NotificationConfig } from '../types';
+import { ContainerRegistry, ContainerState, CronConfig, DigestTimeline, ImageMetadata, ImageSignature, NotificationConfig, RegistryCheckResult, ReleaseNotes, VulnerabilityComparison, VulnerabilityScan } from '../types';
 import { DatabaseService } from './databaseService';
+import { isSamePlatformTarget } from '../../shared/platform';
 
 export class ConfigService {
+  // A monitored container is identified by image, tag and target platform ("latest" when no tag is set)
+  static isSameContainer(a: ContainerRegistry, b: ContainerRegistry): boolean {
+    return a.imagePath === b.imagePath
+      && (a.tag || 'latest') === (b.tag || 'latest')
+      && isSamePlatformTarget(a.platform, b.platform);
+  }
+
+  // Whether a state (or check result) belongs to the given container
+  static matchesState(container: ContainerRegistry, state: { image: string; tag: string; targetPlatform?: string }): boolean {
+    return container.imagePath === state.image
+      && (container.tag || 'latest') === state.tag
+      && isSamePlatformTarget(container.platform, state.targetPlatform);
+  }
+
+  // Whether two states (or check results) describe the same image, tag and target platform
+  static isSameState(a: { image: string; tag: string; targetPlatform?: string }, b: { image: string; tag: string; targetPlatform?: string }): boolean {
+    return a.image === b.image && a.tag === b.tag && isSamePlatformTarget(a.targetPlatform, b.targetPlatform);
+  }
+
   static async getContainers(): Promise<(ContainerRegistry & { source_agent_id?: string })[]> {
     const containers = await DatabaseService.getContainers();
     return containers.map((container: any) => ({
       name: container.name,
       imagePath: container.image_path,
       tag: container.tag === 'latest' ? undefined : container.tag,
+      platform: container.platform || undefined,
+      digest: container.digest || undefined,
+      updatePolicy: container.update_policy || undefined,
+      includePrerelease: container.include_prerelease ? true : undefined,
+      tagPattern: container.tag_pattern || undefined,
+      versionScheme: container.version_scheme || undefined,
+      cosignPublicKey: container.cosign_public_key || undefined,
       source_agent_id: container.source_agent_id || undefined
     }));
   }
@@ -24,16 +51,36 @@ export class ConfigService {
       await DatabaseService.addContainer({
         name: container.name,
         image_path: container.imagePath,
-        tag: container.tag || 'latest'
+        tag: container.tag || 'latest',
+        platform: container.platform,
+        digest: container.digest,
+        update_policy: container.updatePolicy,
+        include_prerelease: container.includePrerelease,
+        tag_pattern: container.tagPattern,
+        version_scheme: container.versionScheme,
+        cosign_public_key: container.cosignPublicKey
       });
     }
   }
 
+  // JSON columns are written by this service; a malformed value is treated as missing
+  private static parseJsonColumn<T>(value: string | null | undefined): T | undefined {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
   static async getContainerState(): Promise<ContainerState[]> {
     const states = await DatabaseService.getContainerStates();
     return states.map((state: any) => ({
       image: state.image,
       tag: state.tag,
+      targetPlatform: state.target_platform || undefined,
       currentSha: state.current_sha,
       lastChecked: state.last_checked,
       hasUpdate: Boolean(state.has_update),
@@ -43,9 +90,20 @@ export class ConfigService {
       isNew: Boolean(state.is_new),
       statusMessage: state.status_message,
       error: Boolean(state.error),
+      errorCode: state.error ? state.error_code || undefined : undefined,
+      errorDetail: state.error ? state.error_detail || undefined : undefined,
       platform: state.platform,
+      indexDigest: state.index_digest || undefined,
+      platformDigests: this.parseJsonColumn<Record<string, string>>(state.platform_digests),
+      changedPlatforms: this.parseJsonColumn<string[]>(state.changed_platforms),
+      pinnedDigest: state.pinned_digest || undefined,
+      pinnedCreated: state.pinned_created || undefined,
       latestAvailableTag: state.latest_available_tag,
       latestAvailableUpdated: state.latest_available_updated,
+      latestMetadata: this.parseJsonColumn<ImageMetadata>(state.latest_metadata),
+      releaseNotes: this.parseJsonColumn<ReleaseNotes>(state.release_notes),
+      signature: this.parseJsonColumn<ImageSignature>(state.signature),
+      vulnerabilities: this.parseJsonColumn<VulnerabilityComparison>(state.vulnerabilities),
       updateAcknowledged: Boolean(state.update_acknowledged),
       updateAcknowledgedAt: state.update_acknowledged_at
     }));
@@ -59,6 +117,7 @@ export class ConfigService {
       await DatabaseService.upsertContainerState({
         image: containerState.image,
         tag: containerState.tag,
+        target_platform: containerState.targetPlatform,
         current_sha: containerState.currentSha,
         last_checked: containerState.lastChecked,
         has_update: containerState.hasUpdate,
@@ -68,15 +127,73 @@ export class ConfigService {
         is_new: containerState.isNew,
         status_message: containerState.statusMessage,
         error: containerState.error,
+        error_code: containerState.errorCode,
+        error_detail: containerState.errorDetail,
         platform: containerState.platform,
+        index_digest: containerState.indexDigest,
+        platform_digests: containerState.platformDigests ? JSON.stringify(containerState.platformDigests) : undefined,
+        changed_platforms: containerState.changedPlatforms?.length ? JSON.stringify(containerState.changedPlatforms) : undefined,
+        pinned_digest: containerState.pinnedDigest,
+        pinned_created: containerState.pinnedCreated,
         latest_available_tag: containerState.latestAvailableTag,
         latest_available_updated: containerState.latestAvailableUpdated,
+        latest_metadata: containerState.latestMetadata ? JSON.stringify(containerState.latestMetadata) : undefined,
+        release_notes: containerState.releaseNotes ? JSON.stringify(containerState.releaseNotes) : undefined,
+        signature: containerState.signature ? JSON.stringify(containerState.signature) : undefined,
+        vulnerabilities: containerState.vulnerabilities ? JSON.stringify(containerState.vulnerabilities) : undefined,
         update_acknowledged: containerState.updateAcknowledged,
         update_acknowledged_at: containerState.updateAcknowledgedAt
       });
     }
   }
 
+  static async saveVulnerabilityScan(state: Pick<ContainerState, 'image' | 'tag' | 'targetPlatform'>, side: 'current' | 'latest', scan: VulnerabilityScan): Promise<void> {
+    await DatabaseService.updateContainerStateVulnerabilityScan(state.image, state.tag, state.targetPlatform || '', side, scan.digest, JSON.stringify(scan));
+  }
+
+  // Record the digest each successful check saw; a digest seen again only moves its last-seen time
+  static async recordDigestObservations(results: RegistryCheckResult[]): Promise<void> {
+    for (const result of results) {
+      if (result.error || result.deferred || !result.latestSha) continue;
+      await DatabaseService.recordDigestObservation({
+        image: result.image,
+        tag: result.tag,
+        target_platform: result.targetPlatform,
+        digest: result.latestSha,
+        index_digest: result.indexDigest,
+        seen_at: result.lastChecked,
+        registry_updated: result.lastUpdated,
+      });
+    }
+  }
+
+  static async getDigestTimeline(image: string, tag: string, targetPlatform?: string): Promise<DigestTimeline> {
+    const rows = await DatabaseService.getDigestHistory(image, tag, targetPlatform || '');
+    return {
+      image,
+      tag,
+      targetPlatform: targetPlatform || undefined,
+      entries: rows.map((row: any) => ({
+        digest: row.digest,
+        indexDigest: row.index_digest || undefined,
+        firstSeen: row.first_seen,
+        lastSeen: row.last_seen,
+        registryUpdated: row.registry_updated || undefined,
+        artifactTypes: this.parseJsonColumn<string[]>(row.artifact_types),
+      })),
+    };
+  }
+
+  // Artifact types attached to a recorded digest; undefined when they were never looked up or the digest is not recorded
+  static async getDigestArtifactTypes(image: string, tag: string, targetPlatform: string | undefined, digest: string): Promise<string[] | undefined> {
+    const row = await DatabaseService.getDigestArtifactTypes(image, tag, targetPlatform || '', digest);
+    return this.parseJsonColumn<string[]>(row?.artifact_types);
+  }
+
+  static async saveDigestArtifactTypes(image: string, tag: string, targetPlatform: string | undefined, digest: string, artifactTypes: string[]): Promise<void> {
+    await DatabaseService.updateDigestArtifactTypes(image, tag, targetPlatform || '', digest, JSON.stringify(artifactTypes));
+  }
+
   static async getCronConfig(): Promise<CronConfig> {
     return await DatabaseService.getCronConfig();
   }
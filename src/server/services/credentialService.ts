@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from './databaseService';
+import { RegistryCredential } from '../types';
+
+export class CredentialService {
+  private static readonly KEY_PATH = path.join(process.cwd(), 'data', 'credentials.key');
+  private static readonly ALGORITHM = 'aes-256-gcm';
+  private static key: Buffer | null = null;
+
+  // Docker Hub is reached under several hostnames; credentials for it are stored under docker.io
+  private static readonly DOCKER_HUB_HOSTS = ['docker.io', 'registry-1.docker.io', 'index.docker.io', 'registry.hub.docker.com'];
+
+  // A registry host with an optional port, after normalization
+  static readonly HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d+)?$/;
+
+  // Normalize user input like "https://Harbor.example.com/" to "harbor.example.com"
+  static normalizeHost(host: string): string {
+    const normalized = host.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+    return this.DOCKER_HUB_HOSTS.includes(normalized) ? 'docker.io' : normalized;
+  }
+
+  // Encryption key comes from CREDENTIALS_ENCRYPTION_KEY, otherwise a random key persisted next to the database
+  private static getKey(): Buffer {
+    if (this.key) {
+      return this.key;
+    }
+
+    const envKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (envKey) {
+      this.key = crypto.createHash('sha256').update(envKey).digest();
+      return this.key;
+    }
+
+    if (fs.existsSync(this.KEY_PATH)) {
+      this.key = Buffer.from(fs.readFileSync(this.KEY_PATH, 'utf-8').trim(), 'hex');
+    } else {
+      fs.mkdirSync(path.dirname(this.KEY_PATH), { recursive: true });
+      this.key = crypto.randomBytes(32);
+      fs.writeFileSync(this.KEY_PATH, this.key.toString('hex'), { mode: 0o600 });
+      console.log('[Credentials] Generated new encryption key', { path: this.KEY_PATH });
+    }
+    return this.key;
+  }
+
+  private static encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(this.ALGORITHM, this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return ['v1', iv.toString('base64'), authTag.toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  private static decrypt(payload: string): string {
+    const [version, iv, authTag, encrypted] = payload.split(':');
+    if (version !== 'v1' || !iv || !authTag || !encrypted) {
+      throw new Error('Unrecognized credential encryption format');
+    }
+    const decipher = crypto.createDecipheriv(this.ALGORITHM, this.getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  private static toCredential(row: any): RegistryCredential {
+    return {
+      id: row.id,
+      host: row.host,
+      username: row.username,
+      hasSecret: !!row.secret_encrypted,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  static async listCredentials(): Promise<RegistryCredential[]> {
+    const rows = await DatabaseService.getRegistryCredentials() as any[];
+    return rows.map(row => this.toCredential(row));
+  }
+
+  static async getCredential(id: number): Promise<RegistryCredential | null> {
+    const row = await DatabaseService.getRegistryCredentialById(id);
+    return row ? this.toCredential(row) : null;
+  }
+
+  // Decrypted credentials for the registry host, used when answering auth challenges
+  static async getCredentialForHost(host: string): Promise<{ username: string; password: string } | null> {
+    const row = await DatabaseService.getRegistryCredentialByHost(this.normalizeHost(host)) as any;
+    if (!row) {
+      return null;
+    }
+    try {
+      return { username: row.username, password: this.decrypt(row.secret_encrypted) };
+    } catch (error) {
+      console.error(`[Credentials] Failed to decrypt credentials for ${row.host}:`, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  static async createCredential(input: { host: string; username: string; secret: string }): Promise<RegistryCredential> {
+    const host = this.normalizeHost(input.host);
+    await DatabaseService.addRegistryCredential({
+      host,
+      username: input.username.trim(),
+      secret_encrypted: this.encrypt(input.secret),
+    });
+    const row = await DatabaseService.getRegistryCredentialByHost(host);
+    return this.toCredential(row);
+  }
+
+  // A blank secret keeps the stored one so the UI never needs to read secrets back
+  static async updateCredential(id: number, input: { host: string; username: string; secret?: string }): Promise<RegistryCredential | null> {
+    const existing = await DatabaseService.getRegistryCredentialById(id) as any;
+    if (!existing) {
+      return null;
+    }
+    await DatabaseService.updateRegistryCredential(id, {
+      host: this.normalizeHost(input.host),
+      username: input.username.trim(),
+      secret_encrypted: input.secret ? this.encrypt(input.secret) : existing.secret_encrypted,
+    });
+    return this.getCredential(id);
+  }
+
+  static async deleteCredential(id: number): Promise<boolean> {
+    const existing = await DatabaseService.getRegistryCredentialById(id);
+    if (!existing) {
+      return false;
+    }
+    await DatabaseService.deleteRegistryCredential(id);
+    return true;
+  }
+}
@@ -1,8 +1,11 @@
 import cron from 'node-cron';
-import { CronConfig } from '../types';
+import { CheckJob, CronConfig } from '../types';
 import { ConfigService } from './configService';
-import { RegistryService } from './registryService';
+import { CheckRunOptions, RegistryService } from './registryService';
 import { NotificationService } from './notificationService';
+import { CheckJobService } from './checkJobService';
+import { describePlatformChanges } from '../../shared/platform';
+import { CHECK_ERROR_LABELS } from '../../shared/checkErrors';
 
 export class CronService {
   private static currentTask: cron.ScheduledTask | null = null;
@@ -21,7 +24,11 @@ export class CronService {
     
     this.currentTask = cron.schedule(config.schedule, async () => {
       console.log('Running scheduled registry check...');
-      await this.runScheduledCheck();
+      // Runs as a check job so its progress is visible in the UI; skipped while another check is running
+      const job = CheckJobService.startJob('scheduled', options => this.runScheduledCheck(false, options));
+      if (!job) {
+        console.warn('Skipping scheduled registry check: another check is still running');
+      }
     }, {
       scheduled: true,
       timezone: config.timezone || 'UTC',
@@ -74,7 +81,7 @@ export class CronService {
     }
   }
 
-  static async runScheduledCheck(isManual: boolean = false): Promise<void> {
+  static async runScheduledCheck(isManual: boolean = false, options: CheckRunOptions = {}): Promise<void> {
     try {
       const containers = await ConfigService.getContainers();
       
@@ -85,23 +92,49 @@ export class CronService {
 
       console.log(`Checking ${containers.length} images...`);
       
-      const checkResults = await RegistryService.checkAllRegistries(containers);
+      // Scheduled runs defer Docker Hub images when the pull budget is low; a manual run checks everything
+      const runOptions = { ...options, deferDockerHubOnLowBudget: !isManual };
+      const checkResults = await RegistryService.checkAllRegistries(containers, runOptions);
+      const deferredCount = checkResults.filter(result => result.deferred).length;
+      if (deferredCount > 0) {
+        console.warn(`[CronService] Deferred ${deferredCount} Docker Hub image${deferredCount === 1 ? '' : 's'} to the next run (pull budget low)`);
+      }
       const currentStates = await ConfigService.getContainerState();
-      const updatedStates = await RegistryService.updateContainerStates(checkResults, currentStates);
+      const updatedStates = await RegistryService.updateContainerStates(checkResults, currentStates, runOptions);
+      options.onStatesUpdated?.(updatedStates);
+
+      // A cancelled run keeps what it checked but sends no notifications for a partial run
+      if (options.signal?.aborted) {
+        await ConfigService.saveContainerState(updatedStates);
+        console.log(`Registry check cancelled after ${checkResults.length} of ${containers.length} images`);
+        return;
+      }
       
       // Check for updates and create notifications
       for (let i = 0; i < updatedStates.length; i++) {
         const state = updatedStates[i];
         const previousState = currentStates.find(
-          s => s.image === state.image && s.tag === state.tag
+          s => ConfigService.isSameState(s, state)
         );
         
+        // A failed check notifies when the image starts failing or fails for a different reason
+        if (state.error) {
+          const isNewError = !previousState?.error || (previousState.errorCode !== undefined && previousState.errorCode !== state.errorCode);
+          const container = containers.find(c => ConfigService.matchesState(c, state));
+          if (isNewError && container) {
+            const code = state.errorCode || 'network';
+            await NotificationService.createCheckErrorNotification(container.name, state.image, state.tag, code, state.statusMessage || CHECK_ERROR_LABELS[code], state.errorDetail);
+            console.log(`[CronService] Check error for ${container.name}: ${code}`);
+          }
+          continue;
+        }
+
         // For manual checks, always send notifications regardless of update status
         // For scheduled checks, only send if there's an update and it's not a new container
         console.log(`[CronService] Checking ${state.image}:${state.tag} - isManual: ${isManual}, hasUpdate: ${state.hasUpdate}, hasNewerTag: ${state.hasNewerTag}, isNew: ${state.isNew}`);
         if (isManual || ((state.hasUpdate || state.hasNewerTag) && !state.isNew)) {
           const container = containers.find(
-            c => c.imagePath === state.image && c.tag === state.tag
+            c => ConfigService.matchesState(c, state)
           );
           
           if (container) {
@@ -111,8 +144,14 @@ export class CronService {
             const isNewUpdate = isNewShaUpdate || isNewVersionUpdate;
             
             // Create appropriate notification message
-            let notificationMessage = `New version available for ${container.name} (tag: ${state.tag})`;
-            if (state.hasNewerTag && state.latestAvailableTag) {
+            const platformChanges = state.hasUpdate ? describePlatformChanges(state.platformDigests, state.changedPlatforms) : '';
+            let notificationMessage = `New version available for ${container.name} (tag: ${state.tag})${platformChanges ? ` - ${platformChanges}` : ''}`;
+            if (state.pinnedDigest && state.hasUpdate) {
+              const daysBehind = RegistryService.getPinnedDaysBehind(state);
+              notificationMessage = daysBehind !== null
+                ? `Pinned digest for ${container.name} is ${daysBehind} day${daysBehind === 1 ? '' : 's'} behind tag ${state.tag}`
+                : `Pinned digest for ${container.name} is behind tag ${state.tag}`;
+            } else if (state.hasNewerTag && state.latestAvailableTag) {
               notificationMessage = `Newer version available for ${container.name}: ${state.latestAvailableTag} (currently monitoring ${state.tag})`;
             } else if (isManual && !state.hasUpdate && !state.hasNewerTag) {
               notificationMessage = `Manual check completed for ${container.name} (tag: ${state.tag}) - up to date`;
@@ -124,7 +163,11 @@ export class CronService {
               state.image,
               state.tag,
               isNewUpdate,
-              notificationMessage
+              notificationMessage,
+              platformChanges || undefined,
+              state.releaseNotes,
+              state.hasUpdate ? state.signature : undefined,
+              state.vulnerabilities
             );
             console.log(`[CronService] Update detected for ${container.name}${isNewUpdate ? ' (new update)' : ' (existing update)'} - SHA: ${state.hasUpdate}, Newer: ${state.hasNewerTag}`);
           }
@@ -139,15 +182,17 @@ export class CronService {
       await NotificationService.sendRunNotification(
         containers.length,
         updatedStates.filter(state => (state.hasUpdate || state.hasNewerTag)).length,
-        0, // errors would be caught in the catch block
+        checkResults.filter(result => result.error).length,
         isManual
       );
 
       // Send individual container status reports
       const containerStatuses = updatedStates.map(state => {
-        const container = containers.find(c => c.imagePath === state.image && c.tag === state.tag);
+        const container = containers.find(c => ConfigService.matchesState(c, state));
         let status = 'Up to date';
-        if (state.hasUpdate || state.hasNewerTag) {
+        if (state.error) {
+          status = `Check failed: ${state.statusMessage || 'unknown error'}`;
+        } else if (state.hasUpdate || state.hasNewerTag) {
           status = state.hasNewerTag && state.latestAvailableTag ? `Newer version available: ${state.latestAvailableTag}` : 'Update available';
         }
         
@@ -168,14 +213,14 @@ export class CronService {
       await NotificationService.createErrorNotification(
         `Scheduled check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+      // Rethrow so the check job and its run history entry are marked as failed
+      throw error;
     }
   }
 
-  static async runManualCheck(): Promise<void> {
-    console.log('Running manual registry check...');
-    console.log('[CronService] Manual check started');
-    await this.runScheduledCheck(true); // Pass true to indicate this is a manual check
-    console.log('[CronService] Manual check completed');
+  // Start a manual check job; null when another check is still running
+  static startManualCheck(): CheckJob | null {
+    return CheckJobService.startJob('manual', options => this.runScheduledCheck(true, options));
   }
 
   static getCurrentTask(): cron.ScheduledTask | null {
@@ -330,6 +330,366 @@ const migrations: Migration[] = [
         });
       });
     }
+  },
+  {
+    version: 8,
+    name: 'registry_credentials',
+    up: async (db) => {
+      return new Promise((resolve, reject) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS registry_credentials (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            host TEXT NOT NULL UNIQUE,
+            username TEXT NOT NULL,
+            secret_encrypted TEXT NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          );
+        `, (err) => {
+          if (err) return reject(err);
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 9,
+    name: 'container_target_platform',
+    up: async (db) => {
+      return new Promise((resolve, reject) => {
+        db.run('ALTER TABLE containers ADD COLUMN platform TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+
+          // The same image:tag can be monitored for several platforms, so the target platform
+          // becomes part of the state key. SQLite cannot alter a UNIQUE constraint, so rebuild the table.
+          db.exec(`
+            BEGIN TRANSACTION;
+            CREATE TABLE container_states_new (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              image TEXT NOT NULL,
+              tag TEXT NOT NULL,
+              target_platform TEXT NOT NULL DEFAULT '',
+              current_sha TEXT NOT NULL,
+              last_checked DATETIME NOT NULL,
+              has_update BOOLEAN DEFAULT 0,
+              has_newer_tag BOOLEAN DEFAULT 0,
+              latest_sha TEXT,
+              last_updated DATETIME,
+              is_new BOOLEAN DEFAULT 0,
+              status_message TEXT,
+              error BOOLEAN DEFAULT 0,
+              platform TEXT,
+              latest_available_tag TEXT,
+              latest_available_updated DATETIME,
+              update_acknowledged BOOLEAN DEFAULT 0,
+              update_acknowledged_at DATETIME,
+              created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              UNIQUE(image, tag, target_platform)
+            );
+            INSERT INTO container_states_new (
+              id, image, tag, current_sha, last_checked, has_update, has_newer_tag, latest_sha, last_updated,
+              is_new, status_message, error, platform, latest_available_tag, latest_available_updated,
+              update_acknowledged, update_acknowledged_at, created_at, updated_at
+            )
+            SELECT
+              id, image, tag, current_sha, last_checked, has_update, has_newer_tag, latest_sha, last_updated,
+              is_new, status_message, error, platform, latest_available_tag, latest_available_updated,
+              update_acknowledged, update_acknowledged_at, created_at, updated_at
+            FROM container_states;
+            DROP TABLE container_states;
+            ALTER TABLE container_states_new RENAME TO container_states;
+            COMMIT;
+          `, (err) => {
+            if (err) {
+              db.exec('ROLLBACK', () => reject(err));
+              return;
+            }
+            resolve();
+          });
+        });
+      });
+    }
+  },
+  {
+    version: 10,
+    name: 'container_state_platform_digests',
+    up: async (db) => {
+      // platform_digests and changed_platforms hold JSON (object keyed by platform, array of platforms)
+      const columns = ['index_digest TEXT', 'platform_digests TEXT', 'changed_platforms TEXT'];
+      for (const column of columns) {
+        await new Promise<void>((resolve, reject) => {
+          db.run(`ALTER TABLE container_states ADD COLUMN ${column}`, (err) => {
+            if (err && !err.message.includes('duplicate column name')) {
+              return reject(err);
+            }
+            resolve();
+          });
+        });
+      }
+    }
+  },
+  {
+    version: 11,
+    name: 'pinned_digests',
+    up: async (db) => {
+      const columns = [
+        'ALTER TABLE containers ADD COLUMN digest TEXT',
+        'ALTER TABLE container_states ADD COLUMN pinned_digest TEXT',
+        'ALTER TABLE container_states ADD COLUMN pinned_created DATETIME',
+      ];
+      for (const statement of columns) {
+        await new Promise<void>((resolve, reject) => {
+          db.run(statement, (err) => {
+            if (err && !err.message.includes('duplicate column name')) {
+              return reject(err);
+            }
+            resolve();
+          });
+        });
+      }
+    }
+  },
+  {
+    version: 12,
+    name: 'container_update_policy',
+    up: async (db) => {
+      // NULL update_policy means 'any', which matches the behavior before policies existed
+      const columns = [
+        'ALTER TABLE containers ADD COLUMN update_policy TEXT',
+        'ALTER TABLE containers ADD COLUMN include_prerelease BOOLEAN DEFAULT 0',
+      ];
+      for (const statement of columns) {
+        await new Promise<void>((resolve, reject) => {
+          db.run(statement, (err) => {
+            if (err && !err.message.includes('duplicate column name')) {
+              return reject(err);
+            }
+            resolve();
+          });
+        });
+      }
+    }
+  },
+  {
+    version: 13,
+    name: 'container_tag_pattern',
+    up: async (db) => {
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE containers ADD COLUMN tag_pattern TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 14,
+    name: 'container_version_scheme',
+    up: async (db) => {
+      // NULL means semver
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE containers ADD COLUMN version_scheme TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 15,
+    name: 'check_runs',
+    up: async (db) => {
+      return new Promise((resolve, reject) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS check_runs (
+            id TEXT PRIMARY KEY,
+            trigger TEXT NOT NULL,
+            status TEXT NOT NULL,
+            started_at DATETIME NOT NULL,
+            finished_at DATETIME,
+            duration_ms INTEGER,
+            image_count INTEGER DEFAULT 0,
+            updates_found INTEGER DEFAULT 0,
+            error_count INTEGER DEFAULT 0,
+            error TEXT
+          );
+
+          CREATE TABLE IF NOT EXISTS check_run_results (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            run_id TEXT NOT NULL,
+            container_name TEXT,
+            image TEXT NOT NULL,
+            tag TEXT NOT NULL,
+            platform TEXT,
+            has_update BOOLEAN DEFAULT 0,
+            has_newer_tag BOOLEAN DEFAULT 0,
+            latest_available_tag TEXT,
+            error TEXT,
+            deferred BOOLEAN DEFAULT 0,
+            FOREIGN KEY (run_id) REFERENCES check_runs(id) ON DELETE CASCADE
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_check_runs_started_at ON check_runs(started_at);
+          CREATE INDEX IF NOT EXISTS idx_check_run_results_run_id ON check_run_results(run_id);
+        `, (err) => {
+          if (err) return reject(err);
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 16,
+    name: 'digest_history',
+    up: async (db) => {
+      // Digests are stored in their full "sha256:<hex>" form
+      return new Promise((resolve, reject) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS digest_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            image TEXT NOT NULL,
+            tag TEXT NOT NULL,
+            target_platform TEXT NOT NULL DEFAULT '',
+            digest TEXT NOT NULL,
+            index_digest TEXT,
+            first_seen DATETIME NOT NULL,
+            last_seen DATETIME NOT NULL,
+            registry_updated DATETIME,
+            UNIQUE(image, tag, target_platform, digest)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_digest_history_image ON digest_history(image, tag, target_platform);
+        `, (err) => {
+          if (err) return reject(err);
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 17,
+    name: 'check_error_codes',
+    up: async (db) => {
+      const columns = [
+        'ALTER TABLE container_states ADD COLUMN error_code TEXT',
+        'ALTER TABLE container_states ADD COLUMN error_detail TEXT',
+        'ALTER TABLE check_run_results ADD COLUMN error_code TEXT',
+      ];
+      for (const statement of columns) {
+        await new Promise<void>((resolve, reject) => {
+          db.run(statement, (err) => {
+            if (err && !err.message.includes('duplicate column name')) {
+              return reject(err);
+            }
+            resolve();
+          });
+        });
+      }
+    }
+  },
+  {
+    version: 18,
+    name: 'container_state_metadata',
+    up: async (db) => {
+      // JSON of ImageMetadata from the latest image's config blob
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE container_states ADD COLUMN latest_metadata TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 19,
+    name: 'container_state_release_notes',
+    up: async (db) => {
+      // JSON of ReleaseNotes for the pending update
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE container_states ADD COLUMN release_notes TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 20,
+    name: 'image_signatures',
+    up: async (db) => {
+      // Cosign public keys per container (PEM) and the JSON of the latest digest's ImageSignature
+      const columns = [
+        'ALTER TABLE containers ADD COLUMN cosign_public_key TEXT',
+        'ALTER TABLE container_states ADD COLUMN signature TEXT',
+      ];
+      for (const statement of columns) {
+        await new Promise<void>((resolve, reject) => {
+          db.run(statement, (err) => {
+            if (err && !err.message.includes('duplicate column name')) {
+              return reject(err);
+            }
+            resolve();
+          });
+        });
+      }
+
+      // Cosign public keys per registry host, used for containers without a key of their own
+      await new Promise<void>((resolve, reject) => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS signing_keys (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            host TEXT NOT NULL UNIQUE,
+            public_key TEXT NOT NULL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          );
+        `, (err) => {
+          if (err) return reject(err);
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 21,
+    name: 'digest_history_artifact_types',
+    up: async (db) => {
+      // JSON array of the artifact types attached to a digest through the referrers API; NULL until looked up
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE digest_history ADD COLUMN artifact_types TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
+  },
+  {
+    version: 22,
+    name: 'container_state_vulnerabilities',
+    up: async (db) => {
+      // JSON of VulnerabilityComparison for a pending update
+      await new Promise<void>((resolve, reject) => {
+        db.run('ALTER TABLE container_states ADD COLUMN vulnerabilities TEXT', (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            return reject(err);
+          }
+          resolve();
+        });
+      });
+    }
   }
 ];
 
@@ -450,17 +810,17 @@ export class DatabaseService {
     return this.runQuery('SELECT * FROM containers ORDER BY created_at DESC');
   }
 
-  static async addContainer(container: { name: string; image_path: string; tag?: string; source_agent_id?: string }) {
+  static async addContainer(container: { name: string; image_path: string; tag?: string; platform?: string; digest?: string; update_policy?: string; include_prerelease?: boolean; tag_pattern?: string; version_scheme?: string; cosign_public_key?: string; source_agent_id?: string }) {
     return this.runCommand(
-      'INSERT INTO containers (name, image_path, tag, source_agent_id) VALUES (?, ?, ?, ?)',
-      [container.name, container.image_path, container.tag || 'latest', container.source_agent_id || null]
+      'INSERT INTO containers (name, image_path, tag, platform, digest, update_policy, include_prerelease, tag_pattern, version_scheme, cosign_public_key, source_agent_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [container.name, container.image_path, container.tag || 'latest', container.platform || null, container.digest || null, container.update_policy || null, container.include_prerelease ? 1 : 0, container.tag_pattern || null, container.version_scheme || null, container.cosign_public_key || null, container.source_agent_id || null]
     );
   }
 
-  static async updateContainer(id: number, container: { name: string; image_path: string; tag?: string }) {
+  static async updateContainer(id: number, container: { name: string; image_path: string; tag?: string; platform?: string; digest?: string; update_policy?: string; include_prerelease?: boolean; tag_pattern?: string; version_scheme?: string; cosign_public_key?: string }) {
     return this.runCommand(
-      'UPDATE containers SET name = ?, image_path = ?, tag = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [container.name, container.image_path, container.tag || 'latest', id]
+      'UPDATE containers SET name = ?, image_path = ?, tag = ?, platform = ?, digest = ?, update_policy = ?, include_prerelease = ?, tag_pattern = ?, version_scheme = ?, cosign_public_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [container.name, container.image_path, container.tag || 'latest', container.platform || null, container.digest || null, container.update_policy || null, container.include_prerelease ? 1 : 0, container.tag_pattern || null, container.version_scheme || null, container.cosign_public_key || null, id]
     );
   }
 
@@ -473,13 +833,14 @@ export class DatabaseService {
     return this.runQuery('SELECT * FROM container_states ORDER BY last_checked DESC');
   }
 
-  static async getContainerState(image: string, tag: string) {
-    return this.runSingleQuery('SELECT * FROM container_states WHERE image = ? AND tag = ?', [image, tag]);
+  static async getContainerState(image: string, tag: string, targetPlatform: string = '') {
+    return this.runSingleQuery('SELECT * FROM container_states WHERE image = ? AND tag = ? AND target_platform = ?', [image, tag, targetPlatform]);
   }
 
   static async upsertContainerState(state: {
     image: string;
     tag: string;
+    target_platform?: string;
     current_sha: string;
     last_checked: string;
     has_update?: boolean;
@@ -489,19 +850,32 @@ export class DatabaseService {
     is_new?: boolean;
     status_message?: string;
     error?: boolean;
+    error_code?: string;
+    error_detail?: string;
     platform?: string;
+    index_digest?: string;
+    platform_digests?: string;
+    changed_platforms?: string;
+    pinned_digest?: string;
+    pinned_created?: string;
     latest_available_tag?: string;
     latest_available_updated?: string;
+    latest_metadata?: string;
+    release_notes?: string;
+    signature?: string;
+    vulnerabilities?: string;
     update_acknowledged?: boolean;
     update_acknowledged_at?: string;
   }) {
     return this.runCommand(`
       INSERT INTO container_states (
-        image, tag, current_sha, last_checked, has_update, has_newer_tag, 
-        latest_sha, last_updated, is_new, status_message, error, platform,
-        latest_available_tag, latest_available_updated, update_acknowledged, update_acknowledged_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(image, tag) DO UPDATE SET
+        image, tag, target_platform, current_sha, last_checked, has_update, has_newer_tag, 
+        latest_sha, last_updated, is_new, status_message, error, error_code, error_detail, platform,
+        index_digest, platform_digests, changed_platforms, pinned_digest, pinned_created,
+        latest_available_tag, latest_available_updated, latest_metadata, release_notes, signature, vulnerabilities,
+        update_acknowledged, update_acknowledged_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(image, tag, target_platform) DO UPDATE SET
         current_sha = excluded.current_sha,
         last_checked = excluded.last_checked,
         has_update = excluded.has_update,
@@ -511,15 +885,33 @@ export class DatabaseService {
         is_new = excluded.is_new,
         status_message = excluded.status_message,
         error = excluded.error,
+        error_code = excluded.error_code,
+        error_detail = excluded.error_detail,
         platform = excluded.platform,
+        index_digest = excluded.index_digest,
+        platform_digests = excluded.platform_digests,
+        changed_platforms = excluded.changed_platforms,
+        pinned_digest = excluded.pinned_digest,
+        pinned_created = excluded.pinned_created,
         latest_available_tag = excluded.latest_available_tag,
         latest_available_updated = excluded.latest_available_updated,
+        latest_metadata = excluded.latest_metadata,
+        release_notes = excluded.release_notes,
+        signature = excluded.signature,
+        -- A scan stored in the background while this state was being checked is kept as long as the digests match
+        vulnerabilities = CASE
+          WHEN excluded.has_update AND container_states.vulnerabilities IS NOT NULL
+            AND excluded.current_sha IS container_states.current_sha AND excluded.latest_sha IS container_states.latest_sha
+          THEN json_patch(container_states.vulnerabilities, COALESCE(excluded.vulnerabilities, '{}'))
+          ELSE excluded.vulnerabilities
+        END,
         update_acknowledged = excluded.update_acknowledged,
         update_acknowledged_at = excluded.update_acknowledged_at,
         updated_at = CURRENT_TIMESTAMP
     `, [
       state.image,
       state.tag,
+      state.target_platform || '',
       state.current_sha,
       state.last_checked,
       state.has_update || false,
@@ -529,9 +921,20 @@ export class DatabaseService {
       state.is_new || false,
       state.status_message || null,
       state.error || false,
+      state.error_code || null,
+      state.error_detail || null,
       state.platform || null,
+      state.index_digest || null,
+      state.platform_digests || null,
+      state.changed_platforms || null,
+      state.pinned_digest || null,
+      state.pinned_created || null,
       state.latest_available_tag || null,
       state.latest_available_updated || null,
+      state.latest_metadata || null,
+      state.release_notes || null,
+      state.signature || null,
+      state.vulnerabilities || null,
       state.update_acknowledged || false,
       state.update_acknowledged_at || null
     ]);
@@ -850,7 +1253,9 @@ export class DatabaseService {
           ELSE 'unknown'
         END as update_status
       FROM agent_containers ac
+      LEFT JOIN containers c ON c.source_agent_id = ac.agent_id AND c.image_path = ac.image
       LEFT JOIN container_states cs ON ac.image = cs.image AND (ac.tag = cs.tag OR (ac.tag IS NULL AND cs.tag = 'latest'))
+        AND cs.target_platform = COALESCE(c.platform, '')
       WHERE ac.agent_id = ? 
       ORDER BY ac.status, ac.name
     `, [agentId]);
@@ -888,7 +1293,7 @@ export class DatabaseService {
     });
   }
 
-  // Clean up duplicate container states (keep only the latest entry for each image + tag)
+  // Clean up duplicate container states (keep only the latest entry for each image + tag + target platform)
   static async cleanupDuplicateContainerStates() {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -898,7 +1303,7 @@ export class DatabaseService {
         WHERE id NOT IN (
           SELECT MIN(id) 
           FROM container_states 
-          GROUP BY image, tag
+          GROUP BY image, tag, target_platform
         )
       `, function(err) {
         if (err) {
@@ -911,8 +1316,9 @@ export class DatabaseService {
     });
   }
 
-  // Create monitored containers from agent heartbeat data
-  static async createMonitoredContainersFromAgent(agentId: string, containers: any[]) {
+  // Create monitored containers from agent heartbeat data.
+  // Containers target the platform the agent reported (per container, else the host's), so arm hosts track arm digests.
+  static async createMonitoredContainersFromAgent(agentId: string, containers: any[], hostPlatform?: string) {
     if (!this.db) throw new Error('Database not initialized');
     
     return new Promise<void>((resolve, reject) => {
@@ -936,7 +1342,8 @@ export class DatabaseService {
             this.db!.get(
               'SELECT id FROM containers WHERE image_path = ? AND source_agent_id = ?',
               [container.image, agentId],
-              (err, existing) => {
+              (err, existing: any) => {
+                const platform = container.platform || hostPlatform || null;
                 if (err) {
                   console.error('[db] Error checking existing monitored container:', err);
                   return reject(err);
@@ -945,8 +1352,8 @@ export class DatabaseService {
                 // Only create if it doesn't already exist
                 if (!existing) {
                   this.db!.run(
-                    'INSERT INTO containers (name, image_path, tag, source_agent_id) VALUES (?, ?, ?, ?)',
-                    [container.name, container.image, container.tag || 'latest', agentId],
+                    'INSERT INTO containers (name, image_path, tag, platform, source_agent_id) VALUES (?, ?, ?, ?, ?)',
+                    [container.name, container.image, container.tag || 'latest', platform, agentId],
                     function(insertErr) {
                       if (insertErr) {
                         console.error('[db] Error creating monitored container:', insertErr);
@@ -956,6 +1363,7 @@ export class DatabaseService {
                     }
                   );
                 } else {
+                  // The agent's platform is only a default for new rows; an existing row's platform is the user's choice
                   console.log(`[db] Monitored container already exists: ${container.image} for agent ${agentId}`);
                 }
                 
@@ -996,6 +1404,238 @@ export class DatabaseService {
     );
   }
 
+  // Store one side ('current' or 'latest') of a state's vulnerability comparison, only while the state still has a
+  // pending update and that side's digest is the scanned one
+  static async updateContainerStateVulnerabilityScan(image: string, tag: string, targetPlatform: string, side: 'current' | 'latest', digest: string, scan: string) {
+    const column = side === 'current' ? 'current_sha' : 'latest_sha';
+    return this.runCommand(`
+      UPDATE container_states
+      SET vulnerabilities = json_set(COALESCE(vulnerabilities, '{}'), '$.${side}', json(?)), updated_at = CURRENT_TIMESTAMP
+      WHERE image = ? AND tag = ? AND target_platform = ? AND has_update = 1
+        AND lower(replace(${column}, 'sha256:', '')) = lower(replace(?, 'sha256:', ''))
+    `, [scan, image, tag, targetPlatform, digest]);
+  }
+
+  // Digest history: one row per distinct digest seen for an image/tag/platform
+  static async recordDigestObservation(observation: {
+    image: string;
+    tag: string;
+    target_platform?: string;
+    digest: string;
+    index_digest?: string;
+    seen_at: string;
+    registry_updated?: string;
+  }) {
+    return this.runCommand(`
+      INSERT INTO digest_history (image, tag, target_platform, digest, index_digest, first_seen, last_seen, registry_updated)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(image, tag, target_platform, digest) DO UPDATE SET
+        last_seen = MAX(last_seen, excluded.last_seen),
+        first_seen = MIN(first_seen, excluded.first_seen),
+        index_digest = COALESCE(excluded.index_digest, index_digest),
+        registry_updated = COALESCE(excluded.registry_updated, registry_updated)
+    `, [
+      observation.image,
+      observation.tag,
+      observation.target_platform || '',
+      observation.digest,
+      observation.index_digest || null,
+      observation.seen_at,
+      observation.seen_at,
+      observation.registry_updated || null
+    ]);
+  }
+
+  static async getDigestHistory(image: string, tag: string, targetPlatform: string = '') {
+    return this.runQuery(
+      'SELECT * FROM digest_history WHERE image = ? AND tag = ? AND target_platform = ? ORDER BY first_seen DESC',
+      [image, tag, targetPlatform]
+    );
+  }
+
+  static async getDigestArtifactTypes(image: string, tag: string, targetPlatform: string, digest: string) {
+    return await this.runSingleQuery(
+      'SELECT artifact_types FROM digest_history WHERE image = ? AND tag = ? AND target_platform = ? AND digest = ?',
+      [image, tag, targetPlatform, digest]
+    ) as { artifact_types: string | null } | undefined;
+  }
+
+  static async updateDigestArtifactTypes(image: string, tag: string, targetPlatform: string, digest: string, artifactTypes: string) {
+    return this.runCommand(
+      'UPDATE digest_history SET artifact_types = ? WHERE image = ? AND tag = ? AND target_platform = ? AND digest = ?',
+      [artifactTypes, image, tag, targetPlatform, digest]
+    );
+  }
+
+  // Check run history
+  static async getCheckRuns(limit: number, offset: number) {
+    return this.runQuery('SELECT * FROM check_runs ORDER BY started_at DESC LIMIT ? OFFSET ?', [limit, offset]);
+  }
+
+  static async countCheckRuns(): Promise<number> {
+    const row = await this.runSingleQuery('SELECT COUNT(*) AS count FROM check_runs');
+    return row?.count || 0;
+  }
+
+  static async getCheckRun(id: string) {
+    return this.runSingleQuery('SELECT * FROM check_runs WHERE id = ?', [id]);
+  }
+
+  static async getCheckRunResults(runId: string) {
+    return this.runQuery('SELECT * FROM check_run_results WHERE run_id = ? ORDER BY id ASC', [runId]);
+  }
+
+  static async addCheckRun(run: { id: string; trigger: string; status: string; started_at: string }) {
+    return this.runCommand(
+      'INSERT INTO check_runs (id, trigger, status, started_at) VALUES (?, ?, ?, ?)',
+      [run.id, run.trigger, run.status, run.started_at]
+    );
+  }
+
+  static async finishCheckRun(id: string, run: {
+    status: string;
+    finished_at: string;
+    duration_ms: number;
+    image_count: number;
+    updates_found: number;
+    error_count: number;
+    error?: string;
+  }, results: Array<{
+    container_name?: string;
+    image: string;
+    tag: string;
+    platform?: string;
+    has_update: boolean;
+    has_newer_tag: boolean;
+    latest_available_tag?: string;
+    error?: string;
+    error_code?: string;
+    deferred: boolean;
+  }>) {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise<void>((resolve, reject) => {
+      this.db!.serialize(() => {
+        let failed: Error | null = null;
+        const track = (err: Error | null) => {
+          if (err && !failed) failed = err;
+        };
+
+        this.db!.run('BEGIN TRANSACTION', track);
+        this.db!.run(
+          'UPDATE check_runs SET status = ?, finished_at = ?, duration_ms = ?, image_count = ?, updates_found = ?, error_count = ?, error = ? WHERE id = ?',
+          [run.status, run.finished_at, run.duration_ms, run.image_count, run.updates_found, run.error_count, run.error || null, id],
+          track
+        );
+
+        const stmt = this.db!.prepare(`
+          INSERT INTO check_run_results (run_id, container_name, image, tag, platform, has_update, has_newer_tag, latest_available_tag, error, error_code, deferred)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        for (const result of results) {
+          stmt.run([
+            id,
+            result.container_name || null,
+            result.image,
+            result.tag,
+            result.platform || null,
+            result.has_update ? 1 : 0,
+            result.has_newer_tag ? 1 : 0,
+            result.latest_available_tag || null,
+            result.error || null,
+            result.error_code || null,
+            result.deferred ? 1 : 0
+          ], track);
+        }
+        stmt.finalize((err) => {
+          track(err);
+          if (failed) {
+            console.error('[db] Error saving check run:', failed);
+            return this.db!.run('ROLLBACK', () => reject(failed));
+          }
+          this.db!.run('COMMIT', (err) => {
+            if (err) return reject(err);
+            resolve();
+          });
+        });
+      });
+    });
+  }
+
+  // Runs still marked running when the server starts were interrupted by a restart
+  static async markInterruptedCheckRuns() {
+    return this.runCommand(
+      "UPDATE check_runs SET status = 'failed', error = 'Interrupted by a server restart' WHERE status = 'running'"
+    );
+  }
+
+  // Keep the most recent runs; their per-image results go with them
+  static async pruneCheckRuns(keep: number) {
+    return this.runCommand(
+      'DELETE FROM check_runs WHERE id NOT IN (SELECT id FROM check_runs ORDER BY started_at DESC LIMIT ?)',
+      [keep]
+    );
+  }
+
+  // Registry credential operations (secrets are encrypted by CredentialService before they reach the database)
+  static async getRegistryCredentials() {
+    return this.runQuery('SELECT * FROM registry_credentials ORDER BY host ASC');
+  }
+
+  static async getRegistryCredentialById(id: number) {
+    return this.runSingleQuery('SELECT * FROM registry_credentials WHERE id = ?', [id]);
+  }
+
+  static async getRegistryCredentialByHost(host: string) {
+    return this.runSingleQuery('SELECT * FROM registry_credentials WHERE host = ?', [host]);
+  }
+
+  static async addRegistryCredential(credential: { host: string; username: string; secret_encrypted: string }) {
+    return this.runCommand(
+      'INSERT INTO registry_credentials (host, username, secret_encrypted) VALUES (?, ?, ?)',
+      [credential.host, credential.username, credential.secret_encrypted]
+    );
+  }
+
+  static async updateRegistryCredential(id: number, credential: { host: string; username: string; secret_encrypted: string }) {
+    return this.runCommand(
+      'UPDATE registry_credentials SET host = ?, username = ?, secret_encrypted = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [credential.host, credential.username, credential.secret_encrypted, id]
+    );
+  }
+
+  static async deleteRegistryCredential(id: number) {
+    return this.runCommand('DELETE FROM registry_credentials WHERE id = ?', [id]);
+  }
+
+  // Cosign public keys per registry host
+  static async getSigningKeys() {
+    return this.runQuery('SELECT * FROM signing_keys ORDER BY host ASC');
+  }
+
+  static async getSigningKeyById(id: number) {
+    return this.runSingleQuery('SELECT * FROM signing_keys WHERE id = ?', [id]);
+  }
+
+  static async getSigningKeyByHost(host: string) {
+    return this.runSingleQuery('SELECT * FROM signing_keys WHERE host = ?', [host]);
+  }
+
+  static async addSigningKey(key: { host: string; public_key: string }) {
+    return this.runCommand('INSERT INTO signing_keys (host, public_key) VALUES (?, ?)', [key.host, key.public_key]);
+  }
+
+  static async updateSigningKey(id: number, key: { host: string; public_key: string }) {
+    return this.runCommand(
+      'UPDATE signing_keys SET host = ?, public_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [key.host, key.public_key, id]
+    );
+  }
+
+  static async deleteSigningKey(id: number) {
+    return this.runCommand('DELETE FROM signing_keys WHERE id = ?', [id]);
+  }
+
   // Web user authentication methods
   static async getWebUser() {
     return this.runSingleQuery('SELECT * FROM web_users WHERE id = 1');
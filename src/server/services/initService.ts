@@ -1,10 +1,14 @@
 import { CronService } from './cronService';
+import { CheckRunService } from './checkRunService';
 
 export class InitService {
   static async initialize(): Promise<void> {
     try {
       console.log('Initializing Registry Radar...');
       
+      // Runs that were in progress when the server stopped will never finish
+      await CheckRunService.markInterruptedRuns();
+      
       // Start the cron service
       await CronService.startCron();
       
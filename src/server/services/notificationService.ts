@@ -1,4 +1,6 @@
-import { Notification } from '../types';
+import { ImageSignature, Notification, ReleaseNotes, VulnerabilityComparison } from '../types';
+import { CheckErrorCode } from '../../shared/checkErrors';
+import { describeVulnerabilityChange } from '../../shared/vulnerabilities';
 import { ConfigService } from './configService';
 import { DatabaseService } from './databaseService';
 import { AppriseService } from './appriseService';
@@ -44,14 +46,43 @@ export class NotificationService {
     await DatabaseService.clearNotifications();
   }
 
-  static async createUpdateNotification(containerName: string, image: string, tag: string, isNewUpdate: boolean = true, customMessage?: string): Promise<void> {
+  // Warning for an update whose latest digest is unsigned or fails signature verification
+  private static describeSignatureProblem(signature?: ImageSignature): string | undefined {
+    if (signature?.status === 'unsigned') {
+      return 'Signature missing: no cosign signature was found for the new image';
+    }
+    if (signature?.status === 'invalid') {
+      return `Signature invalid: ${signature.detail || 'the cosign signature did not verify'}`;
+    }
+    return undefined;
+  }
+
+  static async createUpdateNotification(containerName: string, image: string, tag: string, isNewUpdate: boolean = true, customMessage?: string, platformChanges?: string, releaseNotes?: ReleaseNotes, signature?: ImageSignature, vulnerabilities?: VulnerabilityComparison): Promise<void> {
     console.log(`[NotificationService] createUpdateNotification called for ${containerName} (${image}:${tag})`);
     
     // Create notification message (use custom message if provided, otherwise default)
-    const message = customMessage || `New version available for ${containerName} (tag: ${tag})`;
-    console.log(`[NotificationService] Creating notification with message: ${message}`);
+    let message = customMessage || `New version available for ${containerName} (tag: ${tag})${platformChanges ? ` - ${platformChanges}` : ''}`;
 
     try {
+      // Updates with a missing or invalid signature are flagged, or not notified at all when configured so
+      const signatureWarning = this.describeSignatureProblem(signature);
+      if (signatureWarning) {
+        const config = await ConfigService.getNotificationConfig();
+        if (config.triggers.unsignedUpdates === 'suppress') {
+          console.log(`[NotificationService] Suppressing update notification for ${containerName} - ${signature?.status} signature`);
+          return;
+        }
+        message = `${message} - ${signatureWarning}`;
+      }
+      // e.g. "Update fixes 3 critical CVEs", when both digests were scanned
+      const vulnerabilitySummary = vulnerabilities?.current && vulnerabilities.latest
+        ? describeVulnerabilityChange(vulnerabilities.current, vulnerabilities.latest) || undefined
+        : undefined;
+      if (vulnerabilitySummary) {
+        message = `${message} - ${vulnerabilitySummary}`;
+      }
+      console.log(`[NotificationService] Creating notification with message: ${message}`);
+
       // Create internal notification
       await this.addNotification({
         type: 'update',
@@ -63,7 +94,7 @@ export class NotificationService {
       console.log(`[NotificationService] Internal notification created successfully for ${containerName}`);
 
       // Send external notifications for all updates (both new and existing)
-      await this.sendExternalNotifications('update', containerName, image, tag);
+      await this.sendExternalNotifications('update', containerName, image, tag, undefined, undefined, platformChanges, releaseNotes, signatureWarning, vulnerabilitySummary);
       console.log(`[NotificationService] External notifications processed for ${containerName}`);
     } catch (error) {
       console.error(`[NotificationService] Error creating notification for ${containerName}:`, error);
@@ -85,6 +116,26 @@ export class NotificationService {
     await this.sendExternalNotifications('error', undefined, undefined, undefined, message, container);
   }
 
+  // A check that failed for one image. External delivery honors the error trigger and its error code filter.
+  static async createCheckErrorNotification(containerName: string, image: string, tag: string, code: CheckErrorCode, message: string, detail?: string): Promise<void> {
+    const text = `Check failed for ${containerName} (tag: ${tag}): ${message}${detail && detail !== message ? ` - ${detail}` : ''}`;
+    await this.addNotification({
+      type: 'error',
+      message: text,
+      timestamp: new Date().toISOString(),
+      container: image,
+      read: false,
+    });
+
+    const config = await ConfigService.getNotificationConfig();
+    const errorCodes = config.triggers.errorCodes || [];
+    if (errorCodes.length > 0 && !errorCodes.includes(code)) {
+      console.log(`[NotificationService] Skipping external error notification for ${containerName} - ${code} is filtered out`);
+      return;
+    }
+    await this.sendExternalNotifications('error', undefined, undefined, undefined, text, containerName);
+  }
+
   static async sendRunNotification(totalContainers: number, updatesFound: number, errors: number, isManual: boolean = false): Promise<void> {
     const config = await ConfigService.getNotificationConfig();
     
@@ -123,7 +174,11 @@ export class NotificationService {
     image?: string,
     tag?: string,
     errorMessage?: string,
-    errorContainer?: string
+    errorContainer?: string,
+    platformChanges?: string,
+    releaseNotes?: ReleaseNotes,
+    signatureWarning?: string,
+    vulnerabilitySummary?: string
   ): Promise<void> {
     try {
       const config = await ConfigService.getNotificationConfig();
@@ -132,7 +187,7 @@ export class NotificationService {
         if (containerName && image && tag) {
           // Send update notifications
           if (config.apprise?.enabled) {
-            await AppriseService.sendUpdateNotification(config.apprise, containerName, image, tag);
+            await AppriseService.sendUpdateNotification(config.apprise, containerName, image, tag, undefined, platformChanges, releaseNotes, signatureWarning, vulnerabilitySummary);
           }
         }
       } else if (type === 'error' && config.triggers.sendReportsOnErrors) {
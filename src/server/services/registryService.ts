@@ -1,18 +1,115 @@
-import axios from 'axios';
-import { ContainerRegistry, ContainerState, RegistryCheckResult } from '../types';
+import axios, { AxiosResponse } from 'axios';
+import { ContainerRegistry, ContainerState, DockerHubRateLimit, ImageDiff, ImageLayer, ImageMetadata, ImageReferrer, ImageReferrers, ImageSignature, RateLimitStatus, ReferrerKind, RegistryCheckResult, RegistryCircuitBreaker, ReleaseNotes, UpdatePolicy, VersionScheme, VulnerabilityComparison, VulnerabilityScan } from '../types';
+import { parseImageReference } from '../../shared/imageReference';
+import { PlatformError, diffPlatformDigests, formatPlatform, isSamePlatformTarget, normalizePlatform, parsePlatform, platformMatches } from '../../shared/platform';
+import { findLatestMatchingTag, isNewerMatchingTag } from '../../shared/tagPattern';
+import { CHECK_ERROR_LABELS, CheckErrorCode, RegistryCheckError, checkErrorCodeForStatus } from '../../shared/checkErrors';
+import { CredentialService } from './credentialService';
+import { ConfigService } from './configService';
+import { ReleaseNotesService } from './releaseNotesService';
+import { ScannerService } from './scannerService';
+import { CosignSignature, ResolvedSigningKeys, SignatureService, SigningKeyring } from './signatureService';
+import { VersionService } from './versionService';
 
 interface ParsedImage {
-  registry: 'dockerhub' | 'github' | 'lscr' | 'unsupported';
-  namespace: string;
-  image: string;
+  registry: 'dockerhub' | 'github' | 'lscr' | 'generic';
+  repository: string;    // Full repository path, e.g. "library/nginx" or "org/group/app"
+  namespace: string;     // Every path segment except the last
+  image: string;         // Last path segment
   fullPath: string;
-  registryDomain?: string; // For unsupported registries
+  registryDomain: string;
 }
 
+interface ManifestResult {
+  sha: string;
+  lastUpdated?: string;
+  platform?: string;
+  indexDigest?: string;                       // Digest of the manifest list / OCI index, when the tag is multi-platform
+  platformDigests?: Record<string, string>;   // Digest of every child manifest, keyed by platform (e.g. "linux/arm64")
+  metadata?: ImageMetadata;                   // From the config blob, when it could be read
+}
+
+// A pending update's digests whose cosign signatures need fetching and verifying
+interface SignatureLookup {
+  host: string;
+  repository: string;
+  candidates: string[]; // "sha256:<hex>", the index digest first
+  keys: ResolvedSigningKeys;
+}
+
+// A newly seen digest whose attached artifacts (SBOMs, provenance, ...) need looking up
+interface ReferrerLookup {
+  host: string;
+  repository: string;
+  result: RegistryCheckResult; // The check that recorded the digest
+  digest: string; // Digest history entry, "sha256:<hex>"
+  candidates: string[]; // "sha256:<hex>", the index digest first
+}
+
+// A pending update's version whose GitHub release needs looking up
+interface ReleaseNotesLookup {
+  source: string; // org.opencontainers.image.source
+  version: string;
+}
+
+export interface CheckRunOptions {
+  deferDockerHubOnLowBudget?: boolean;
+  signal?: AbortSignal; // Stops starting new checks once aborted
+  onRunStart?: (total: number) => void;
+  onCheckStart?: (container: ContainerRegistry) => void;
+  onCheckComplete?: (container: ContainerRegistry, result: RegistryCheckResult) => void; // Once per container, duplicates included
+  onStatesUpdated?: (states: ContainerState[]) => void; // States after the run's results were applied
+}
+
+// The parts of a run's options that apply while its results are turned into states
+export type StateUpdateOptions = Pick<CheckRunOptions, 'deferDockerHubOnLowBudget' | 'signal'>;
+
 export class RegistryService {
   // Token cache to reduce API calls
   private static tokenCache: Map<string, { token: string; expiresAt: number }> = new Map();
 
+  // Last manifest result per host/repository:tag/platform, revalidated by HEAD (Docker-Content-Digest) and, where the
+  // registry sent one, If-None-Match. A HEAD does not count against Docker Hub's pull limit, so unchanged tags are
+  // checked without a GET. Capped at MAX_CACHED_MANIFESTS, dropping the least recently used tags first.
+  private static readonly MAX_CACHED_MANIFESTS = 1000;
+  private static manifestCache: Map<string, { digest: string; etag?: string; result: ManifestResult }> = new Map();
+
+  // Docker Hub pull budget as last reported by the ratelimit-* headers, and the images the last scheduled run deferred
+  private static dockerHubRateLimit: DockerHubRateLimit | null = null;
+  private static deferredImages: Set<string> = new Set();
+
+  // Digest comparisons never change, so the last few are kept; each costs several manifest GETs
+  private static readonly MAX_CACHED_DIFFS = 50;
+  private static imageDiffCache: Map<string, ImageDiff> = new Map();
+
+  // Cosign stores each signature as a layer of the ".sig" artifact, with the signature in this annotation
+  private static readonly COSIGN_SIGNATURE_ANNOTATION = 'dev.cosignproject.cosign/signature';
+  private static readonly MAX_SIGNATURE_LAYERS = 10;
+  private static readonly UNSIGNED_SIGNATURE_RECHECK_MS = 6 * 60 * 60 * 1000;
+
+  // Registries without the OCI 1.1 referrers API answer these statuses; their referrers are under the "sha256-<hex>" tag
+  private static readonly REFERRERS_UNSUPPORTED_STATUSES = [400, 404, 405, 501];
+  private static readonly MAX_REFERRERS = 50;
+  // The full artifact list is looked up when a card's artifact panel is opened; artifacts can be attached to a digest
+  // later, so a lookup is reused only for a while
+  private static readonly REFERRERS_TTL_MS = 15 * 60 * 1000;
+  private static readonly MAX_CACHED_REFERRERS = 50;
+  private static referrersCache: Map<string, ImageReferrers> = new Map();
+
+  // Recent successful check results and checks in flight, keyed by everything that shapes a result, so containers
+  // sharing an image/tag/platform (e.g. one agent row per host) cost a single registry round-trip
+  private static readonly CHECK_RESULT_TTL_MS = 15000;
+  private static checkResultCache: Map<string, { result: RegistryCheckResult; expiresAt: number }> = new Map();
+  private static inFlightChecks: Map<string, Promise<RegistryCheckResult>> = new Map();
+
+  // Per-registry circuit breakers, keyed by host
+  private static circuitBreakers: Map<string, RegistryCircuitBreaker> = new Map();
+  // Errors that say the registry itself is failing; an image-specific error (not found, denied) means it answered
+  private static readonly BREAKER_ERROR_CODES: CheckErrorCode[] = ['network', 'timeout', 'rate_limited'];
+  private static readonly MAX_BACKOFF_MS = 30000;
+  // Network errors worth retrying; anything else (e.g. an unknown host) fails the request right away
+  private static readonly TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH', 'EHOSTUNREACH'];
+
   // Registry-specific delays to handle rate limiting
   private static readonly REGISTRY_DELAYS = {
     'registry-1.docker.io': 500,   // 500ms for Docker Hub (reduced from 2s)
@@ -20,21 +117,97 @@ export class RegistryService {
     'lscr.io': 200,                // 200ms for LSCR (reduced from 1s)
   } as const;
 
-  // Registry-specific max retries
-  private static readonly REGISTRY_MAX_RETRIES = {
-    'registry-1.docker.io': 0,     // 0 retries for Docker Hub (fail fast to reduce API calls)
-    'ghcr.io': 1,                  // 1 retry for GHCR (reduced from 3)
-    'lscr.io': 1,                  // 1 retry for LSCR (reduced from 3)
-  } as const;
+  // Default limits on checks in flight at once per registry (the overall limit is CHECK_CONCURRENCY), keyed by
+  // normalized host. REGISTRY_CONCURRENCY overrides them, REGISTRY_CONCURRENCY_DEFAULT sets the limit for other hosts.
+  private static readonly REGISTRY_CONCURRENCY: Record<string, number> = {
+    'docker.io': 1,                // Docker Hub stays sequential to spare the pull budget
+  };
+
+  // Number of concurrent checks allowed for a registry. REGISTRY_CONCURRENCY lists per-host limits as
+  // "host=count" pairs, e.g. "ghcr.io=4,docker.io=2"; malformed entries are ignored.
+  private static getRegistryConcurrency(host: string): number {
+    const key = CredentialService.normalizeHost(host);
+    for (const entry of (process.env.REGISTRY_CONCURRENCY || '').split(',')) {
+      const [entryHost, count] = entry.split('=');
+      const limit = parseInt(count || '', 10);
+      if (entryHost?.trim() && CredentialService.normalizeHost(entryHost) === key && Number.isFinite(limit) && limit > 0) {
+        return limit;
+      }
+    }
+    if (this.REGISTRY_CONCURRENCY[key]) {
+      return this.REGISTRY_CONCURRENCY[key];
+    }
+    const fallback = parseInt(process.env.REGISTRY_CONCURRENCY_DEFAULT || '', 10);
+    return Number.isFinite(fallback) && fallback > 0 ? fallback : 2;
+  }
+
+  // Overall number of image checks in flight at once
+  static getCheckConcurrency(): number {
+    const concurrency = parseInt(process.env.CHECK_CONCURRENCY || '', 10);
+    return Number.isFinite(concurrency) && concurrency > 0 ? concurrency : 4;
+  }
 
   // Helper method to get delay for a specific registry
   private static getRegistryDelay(host: string): number {
     return this.REGISTRY_DELAYS[host as keyof typeof this.REGISTRY_DELAYS] || 200;
   }
 
-  // Helper method to get max retries for a specific registry
-  private static getRegistryMaxRetries(host: string): number {
-    return this.REGISTRY_MAX_RETRIES[host as keyof typeof this.REGISTRY_MAX_RETRIES] || 1;
+  // Retries of a registry request that failed transiently (REGISTRY_MAX_RETRIES, default 2)
+  static getMaxRetries(): number {
+    const retries = parseInt(process.env.REGISTRY_MAX_RETRIES || '', 10);
+    return Number.isFinite(retries) && retries >= 0 ? retries : 2;
+  }
+
+  // Delay before retry number `attempt` (0-based): doubles per attempt up to MAX_BACKOFF_MS, with the upper half
+  // randomized so retries from parallel checks spread out instead of hitting the registry together
+  private static getBackoffDelay(host: string, attempt: number): number {
+    const delay = Math.min(this.getRegistryDelay(host) * Math.pow(2, attempt), this.MAX_BACKOFF_MS);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
+
+  // Retry-After in milliseconds, given either as seconds or as an HTTP date; undefined when absent or unreadable
+  private static parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // Send a registry request, retrying rate limits (429), server errors (5xx other than 501) and transient network
+  // errors with jittered exponential backoff. A Retry-After header sets the wait instead; one longer than
+  // MAX_BACKOFF_MS is not waited for. The last response is returned for the caller to handle, and the last
+  // network error is thrown once retries run out.
+  private static async sendWithRetry<T = any>(host: string, send: () => Promise<AxiosResponse<T>>, context: Record<string, unknown> = {}): Promise<AxiosResponse<T>> {
+    const maxRetries = this.getMaxRetries();
+    for (let attempt = 0; ; attempt++) {
+      let response: AxiosResponse<T>;
+      try {
+        response = await send();
+      } catch (error) {
+        const code = (error as any)?.code;
+        if (attempt >= maxRetries || (error as any)?.response || !this.TRANSIENT_ERROR_CODES.includes(code)) {
+          throw error;
+        }
+        const delay = this.getBackoffDelay(host, attempt);
+        console.log(`[Registry] ${code}, retrying in ${delay}ms`, { host, ...context, attempt: attempt + 1, maxRetries });
+        await this.sleep(delay);
+        continue;
+      }
+
+      const retryable = response.status === 429 || (response.status >= 500 && response.status !== 501);
+      if (!retryable || attempt >= maxRetries) {
+        return response;
+      }
+      const retryAfter = this.parseRetryAfter(response.headers?.['retry-after']);
+      if (retryAfter !== undefined && retryAfter > this.MAX_BACKOFF_MS) {
+        console.warn(`[Registry] Status ${response.status} with Retry-After of ${Math.round(retryAfter / 1000)}s, not retrying`, { host, ...context });
+        return response;
+      }
+      const delay = retryAfter ?? this.getBackoffDelay(host, attempt);
+      console.log(`[Registry] Status ${response.status}, retrying in ${delay}ms`, { host, ...context, attempt: attempt + 1, maxRetries });
+      await this.sleep(delay);
+    }
   }
 
   // Helper method to sleep for a specified duration
@@ -62,6 +235,11 @@ export class RegistryService {
     console.log(`[Registry] Cached token`, { cacheKey, expiresIn: expiresIn + 's' });
   }
 
+  // Drop cached registry tokens, e.g. after stored credentials change
+  static clearTokenCache(): void {
+    this.tokenCache.clear();
+  }
+
   // Helper method to get Docker Hub credentials from environment variables
   private static getDockerHubCredentials(): { username: string; password: string } | null {
     const username = process.env.DOCKERHUB_USERNAME;
@@ -75,6 +253,243 @@ export class RegistryService {
     return null;
   }
 
+  // Helper method to get credentials for a registry host: stored credentials first, then Docker Hub env vars
+  private static async getRegistryCredentials(host: string): Promise<{ username: string; password: string } | null> {
+    try {
+      const stored = await CredentialService.getCredentialForHost(host);
+      if (stored) {
+        console.log(`[Registry] Using stored credentials`, { host, username: stored.username });
+        return stored;
+      }
+    } catch (e) {
+      console.warn(`[Registry] Failed to load stored credentials`, { host, error: e instanceof Error ? e.message : String(e) });
+    }
+    return host === 'registry-1.docker.io' ? this.getDockerHubCredentials() : null;
+  }
+
+  // Docker Hub reports "100;w=21600" (count; window in seconds)
+  private static parseRateLimitHeader(value: unknown): { count: number; windowSeconds?: number } | null {
+    if (typeof value !== 'string') return null;
+    const match = /^\s*(\d+)(?:\s*;\s*w=(\d+))?/.exec(value);
+    if (!match) return null;
+    return { count: Number(match[1]), windowSeconds: match[2] ? Number(match[2]) : undefined };
+  }
+
+  // Record the Docker Hub pull budget from a registry response; other registries are ignored
+  private static recordRateLimit(host: string, headers: any): void {
+    if (host !== 'registry-1.docker.io') return;
+    const limit = this.parseRateLimitHeader(headers?.['ratelimit-limit']);
+    const remaining = this.parseRateLimitHeader(headers?.['ratelimit-remaining']);
+    if (!limit || !remaining) return;
+    this.dockerHubRateLimit = {
+      limit: limit.count,
+      remaining: remaining.count,
+      windowSeconds: remaining.windowSeconds ?? limit.windowSeconds,
+      source: headers?.['docker-ratelimit-source'] || undefined,
+      observedAt: new Date().toISOString(),
+    };
+  }
+
+  static getDockerHubDeferThreshold(): number {
+    const threshold = parseInt(process.env.DOCKERHUB_RATE_LIMIT_THRESHOLD || '', 10);
+    return Number.isFinite(threshold) && threshold >= 0 ? threshold : 10;
+  }
+
+  // Low budget that is still within its window; a reading older than the window has reset since
+  private static isDockerHubBudgetLow(): boolean {
+    const budget = this.dockerHubRateLimit;
+    if (!budget || budget.remaining >= this.getDockerHubDeferThreshold()) return false;
+    const windowMs = (budget.windowSeconds || 21600) * 1000;
+    return Date.now() - new Date(budget.observedAt).getTime() < windowMs;
+  }
+
+  // Docker Hub's documented way to read the budget: HEAD requests do not count as pulls
+  private static async refreshDockerHubRateLimit(): Promise<void> {
+    await this.headManifest('registry-1.docker.io', 'ratelimitpreview/test', 'latest');
+  }
+
+  static async getRateLimitStatus(): Promise<RateLimitStatus> {
+    return {
+      dockerHub: this.dockerHubRateLimit,
+      authenticated: !!(await this.getRegistryCredentials('registry-1.docker.io')),
+      threshold: this.getDockerHubDeferThreshold(),
+      deferred: this.deferredImages.size,
+    };
+  }
+
+  static getCircuitBreakerThreshold(): number {
+    const threshold = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '', 10);
+    return Number.isFinite(threshold) && threshold > 0 ? threshold : 3;
+  }
+
+  static getCircuitBreakerCooldownMs(): number {
+    const seconds = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS || '', 10);
+    return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 300) * 1000;
+  }
+
+  // Open breaker still within its cooldown: checks on the host are skipped without contacting it
+  private static isCircuitOpen(host: string): boolean {
+    const breaker = this.circuitBreakers.get(host);
+    return breaker?.state === 'open' && Date.now() < Date.parse(breaker.retryAt || '');
+  }
+
+  // Whether a check may contact the host. An open breaker past its cooldown goes half-open and lets this one
+  // check through as a probe; other checks stay skipped until the probe succeeds.
+  private static allowRegistryRequest(host: string): boolean {
+    const breaker = this.circuitBreakers.get(host);
+    if (!breaker || breaker.state === 'closed') return true;
+    if (breaker.state === 'open' && !this.isCircuitOpen(host)) {
+      breaker.state = 'half_open';
+      console.log(`[Breaker] ${host} cooldown passed, probing with the next check`);
+      return true;
+    }
+    return false;
+  }
+
+  private static recordRegistryOutcome(host: string, result: RegistryCheckResult): void {
+    const breaker = this.circuitBreakers.get(host);
+    const failed = result.error && result.errorCode !== undefined && this.BREAKER_ERROR_CODES.includes(result.errorCode);
+    if (!failed) {
+      if (breaker && breaker.state !== 'closed') {
+        console.log(`[Breaker] ${host} recovered, closing the breaker`);
+      }
+      if (breaker) {
+        breaker.state = 'closed';
+        breaker.consecutiveFailures = 0;
+        breaker.openedAt = undefined;
+        breaker.retryAt = undefined;
+      }
+      return;
+    }
+
+    const threshold = this.getCircuitBreakerThreshold();
+    const next: RegistryCircuitBreaker = breaker || { host, state: 'closed', consecutiveFailures: 0, threshold };
+    next.threshold = threshold;
+    next.consecutiveFailures++;
+    next.lastFailureAt = new Date().toISOString();
+    next.lastError = result.errorDetail || result.statusMessage;
+    if (next.state === 'half_open' || next.consecutiveFailures >= threshold) {
+      const now = Date.now();
+      next.state = 'open';
+      next.openedAt = new Date(now).toISOString();
+      next.retryAt = new Date(now + this.getCircuitBreakerCooldownMs()).toISOString();
+      console.warn(`[Breaker] ${host} failed ${next.consecutiveFailures} checks in a row, skipping it until ${next.retryAt}`, { lastError: next.lastError });
+    }
+    this.circuitBreakers.set(host, next);
+  }
+
+  // Every host that has failed a check since startup, with its breaker state
+  static getCircuitBreakers(): RegistryCircuitBreaker[] {
+    return [...this.circuitBreakers.values()].map(breaker => ({ ...breaker, threshold: this.getCircuitBreakerThreshold() }));
+  }
+
+  // Close a host's breaker by hand, e.g. once an outage is known to be over; false when the host has none
+  static resetCircuitBreaker(host: string): boolean {
+    const breaker = this.circuitBreakers.get(host);
+    if (!breaker) return false;
+    console.log(`[Breaker] ${host} reset`);
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.openedAt = undefined;
+    breaker.retryAt = undefined;
+    return true;
+  }
+
+  // Helper method to build the base URL for a registry, honoring INSECURE_REGISTRIES for plain HTTP hosts
+  private static getRegistryBaseUrl(host: string): string {
+    const insecureHosts = (process.env.INSECURE_REGISTRIES || '')
+      .split(',')
+      .map(h => h.trim().toLowerCase())
+      .filter(Boolean);
+    return insecureHosts.includes(host.toLowerCase()) ? `http://${host}` : `https://${host}`;
+  }
+
+  // Resolve an Authorization header value from a WWW-Authenticate challenge (Bearer token flow or Basic auth)
+  private static async getAuthorization(host: string, repository: string, wwwAuth: string): Promise<string> {
+    const scheme = wwwAuth.trim().split(/\s+/)[0].toLowerCase();
+    const credentials = await this.getRegistryCredentials(host);
+
+    if (scheme === 'basic') {
+      if (!credentials) {
+        throw new RegistryCheckError('unauthorized', `Registry ${host} requires basic authentication but no credentials are configured`);
+      }
+      console.log(`[Registry] Using basic auth`, { host, repository, username: credentials.username });
+      return `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+    }
+
+    if (scheme !== 'bearer') {
+      throw new RegistryCheckError('unsupported_registry', `Unsupported authentication scheme "${scheme}" from ${host}`);
+    }
+
+    // Parse Bearer realm,service,scope
+    const realmMatch = /realm="([^"]+)"/.exec(wwwAuth);
+    const serviceMatch = /service="([^"]+)"/.exec(wwwAuth);
+    const scopeMatch = /scope="([^"]+)"/.exec(wwwAuth);
+
+    const realm = realmMatch?.[1];
+    // Some registries (e.g. plain registry:2 behind a token server) omit the service parameter
+    const service = serviceMatch?.[1];
+    // Ensure we have pull scope
+    const scope = scopeMatch?.[1] || `repository:${repository}:pull`;
+    if (!realm) throw new RegistryCheckError('unsupported_registry', `Malformed WWW-Authenticate header from ${host}`);
+
+    // Check token cache first
+    const tokenCacheKey = `${host}:${service || ''}:${scope}`;
+    const cachedToken = this.getCachedToken(tokenCacheKey);
+    if (cachedToken) {
+      return `Bearer ${cachedToken}`;
+    }
+
+    const isAuthenticated = !!credentials;
+    console.log(`[Registry] Token request ${isAuthenticated ? '(authenticated)' : '(anonymous)'}`, { realm, service, scope });
+
+    // Prepare request headers with Basic Auth if credentials available
+    const headers: Record<string, string> = {};
+    if (credentials) {
+      const authString = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+      headers['Authorization'] = `Basic ${authString}`;
+    }
+
+    const params: Record<string, string> = { scope };
+    if (service) {
+      params.service = service;
+    }
+
+    const tokenResp = await this.sendWithRetry(host, () => axios.get(realm, {
+      params,
+      headers: headers,
+      timeout: 15000, // Increased timeout for token requests
+      validateStatus: () => true,
+    }), { realm });
+
+    // Parse rate limit headers if available
+    const rateLimitRemaining = tokenResp.headers['ratelimit-remaining'];
+    const rateLimitLimit = tokenResp.headers['ratelimit-limit'];
+    const rateLimitReset = tokenResp.headers['ratelimit-reset'];
+
+    // Token servers return either "token" or the OAuth2-style "access_token" (e.g. Harbor, Quay)
+    const token = tokenResp.data?.token || tokenResp.data?.access_token;
+
+    console.log(`[Registry] Token response`, {
+      status: tokenResp.status,
+      hasToken: !!token,
+      authenticated: isAuthenticated,
+      rateLimit: rateLimitLimit ? `${rateLimitRemaining}/${rateLimitLimit}` : undefined,
+      resetTime: rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000).toISOString() : undefined
+    });
+
+    if (tokenResp.status !== 200 || !token) {
+      console.warn(`[Registry] Token request failed`, { status: tokenResp.status, data: tokenResp.data });
+      throw new RegistryCheckError(checkErrorCodeForStatus(tokenResp.status), `Token service failed with status ${tokenResp.status}: ${JSON.stringify(tokenResp.data)}`);
+    }
+
+    // Cache the token (Docker tokens typically expire in 5 minutes)
+    const expiresIn = Number(tokenResp.data?.expires_in) || 300;
+    this.cacheToken(tokenCacheKey, token, Math.min(expiresIn, 300));
+
+    return `Bearer ${token}`;
+  }
+
   // Helper method to normalize SHA values for consistent comparison
   static normalizeSha(sha: string): string {
     if (!sha || sha === '') {
@@ -123,62 +538,201 @@ export class RegistryService {
     return areEqual;
   }
 
-  // Helper method to extract digest and timestamp from a manifest response
+  // Labels and runtime settings from an image config blob, plus the compressed size from its manifest's layers
+  private static parseImageMetadata(manifest: any, config: any): ImageMetadata {
+    const labels: Record<string, string> = config?.config?.Labels || {};
+    const label = (name: string) => {
+      const value = labels[`org.opencontainers.image.${name}`];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+    const layers: any[] = Array.isArray(manifest?.layers) ? manifest.layers : [];
+    const compressedSize = layers.reduce((total, layer) => total + (Number(layer?.size) || 0), 0);
+    const exposedPorts = Object.keys(config?.config?.ExposedPorts || {});
+    const entrypoint = config?.config?.Entrypoint;
+
+    return {
+      version: label('version'),
+      revision: label('revision'),
+      source: label('source'),
+      created: label('created') || config?.created || undefined,
+      title: label('title'),
+      architecture: config?.architecture ? formatPlatform(normalizePlatform(config)) : undefined,
+      exposedPorts: exposedPorts.length > 0 ? exposedPorts : undefined,
+      entrypoint: Array.isArray(entrypoint) && entrypoint.length > 0 ? entrypoint.map(String) : undefined,
+      compressedSize: compressedSize > 0 ? compressedSize : undefined,
+    };
+  }
+
+  // Helper method to extract digest, timestamp and config metadata from a manifest response
   private static async extractDigestAndTimestamp(
     response: any,
     baseUrl: string,
     repository: string,
     tag: string,
     platform?: string,
-    token?: string
-  ): Promise<{ sha: string; lastUpdated?: string; platform?: string }> {
-      const digest = response.headers['docker-content-digest'] || response.data?.config?.digest || response.data?.digest || '';
-      const sha = String(digest || '').replace('sha256:', '');
+    authorization?: string
+  ): Promise<ManifestResult> {
+    const digest = response.headers['docker-content-digest'] || response.data?.config?.digest || response.data?.digest || '';
+    const sha = String(digest || '').replace('sha256:', '');
 
-      let lastUpdated: string | undefined = undefined;
-      try {
-        const configDigest = response.data?.config?.digest;
-        if (configDigest) {
-          const blobUrl = `${baseUrl}/v2/${repository}/blobs/${configDigest}`;
-          const headers: Record<string, string> = { 'Accept': 'application/octet-stream' };
-          if (token) {
-            headers['Authorization'] = `Bearer ${token}`;
-          }
-          const blobResp = await axios.get(blobUrl, {
-            headers,
-            timeout: 10000,
-            validateStatus: () => true,
-          });
-        console.log(`[Registry] Blob fetch`, { host: baseUrl.replace('https://', ''), repository, tag, status: blobResp.status, hasAuth: !!token });
-          if (blobResp.status === 200 && blobResp.data && typeof blobResp.data === 'object') {
-            if (blobResp.data.created) {
-              lastUpdated = blobResp.data.created;
-            }
+    let lastUpdated: string | undefined = undefined;
+    let metadata: ImageMetadata | undefined = undefined;
+    try {
+      const configDigest = response.data?.config?.digest;
+      if (configDigest) {
+        const blobUrl = `${baseUrl}/v2/${repository}/blobs/${configDigest}`;
+        const headers: Record<string, string> = { 'Accept': 'application/octet-stream' };
+        if (authorization) {
+          headers['Authorization'] = authorization;
+        }
+        const blobResp = await axios.get(blobUrl, {
+          headers,
+          timeout: 10000,
+          validateStatus: () => true,
+        });
+        console.log(`[Registry] Blob fetch`, { host: baseUrl.replace(/^https?:\/\//, ''), repository, tag, status: blobResp.status, hasAuth: !!authorization });
+        if (blobResp.status === 200 && blobResp.data && typeof blobResp.data === 'object') {
+          if (blobResp.data.created) {
+            lastUpdated = blobResp.data.created;
           }
+          metadata = this.parseImageMetadata(response.data, blobResp.data);
         }
-      } catch (e) {
-      console.warn(`[Registry] Blob fetch failed`, { host: baseUrl.replace('https://', ''), repository, tag, error: (e as any)?.message });
-        // Ignore errors deriving created timestamp
       }
+    } catch (e) {
+      console.warn(`[Registry] Blob fetch failed`, { host: baseUrl.replace(/^https?:\/\//, ''), repository, tag, error: (e as any)?.message });
+      // Ignore errors deriving created timestamp and metadata
+    }
+
+    if (sha) return { sha, lastUpdated, platform, metadata };
+    throw new RegistryCheckError('parse_error', 'No digest in manifest response');
+  }
+
+  // Pick the manifest list entry for the target platform; without a target prefer linux/amd64, else the first entry
+  private static selectPlatformManifest(manifests: any[], targetPlatform?: string): any {
+    if (targetPlatform) {
+      const target = parsePlatform(targetPlatform);
+      const match = manifests.find((m: any) => platformMatches(m.platform, target));
+      if (!match) {
+        const available = manifests
+          .filter((m: any) => m.platform?.architecture && m.platform.architecture !== 'unknown')
+          .map((m: any) => formatPlatform(normalizePlatform(m.platform)));
+        throw new PlatformError(`Platform ${targetPlatform} not available (available: ${available.join(', ') || 'none'})`);
+      }
+      return match;
+    }
+
+    const preferredPlatform = manifests.find((m: any) =>
+      m.platform?.architecture === 'amd64' && m.platform?.os === 'linux'
+    );
+    return preferredPlatform || manifests[0];
+  }
+
+  // Index digest plus the digest of every platform in a manifest list. Attestation entries
+  // (platform "unknown/unknown") are not runnable images and are skipped.
+  private static getManifestListDigests(response: any, manifests: any[]): Pick<ManifestResult, 'indexDigest' | 'platformDigests'> {
+    const platformDigests: Record<string, string> = {};
+    for (const m of manifests) {
+      if (!m?.digest || !m.platform?.architecture || m.platform.architecture === 'unknown') {
+        continue;
+      }
+      platformDigests[formatPlatform(normalizePlatform(m.platform))] = String(m.digest).replace('sha256:', '');
+    }
+    const indexDigest = String(response.headers['docker-content-digest'] || '').replace('sha256:', '');
+    return { indexDigest: indexDigest || undefined, platformDigests };
+  }
 
-    if (sha) return { sha, lastUpdated, platform };
-      throw new Error('No digest in manifest response');
+  private static readonly MANIFEST_ACCEPT = [
+    'application/vnd.docker.distribution.manifest.list.v2+json',
+    'application/vnd.oci.image.index.v1+json',
+    'application/vnd.docker.distribution.manifest.v2+json',
+    'application/vnd.oci.image.manifest.v1+json',
+  ].join(', ');
+
+  // HEAD the tag to read Docker-Content-Digest (and ETag) without downloading the manifest, authenticating if challenged.
+  // Returns {} when the registry does not answer HEAD usefully; callers then fall back to GET.
+  private static async headManifest(host: string, repository: string, tag: string): Promise<{ digest?: string; etag?: string; authorization?: string }> {
+    const manifestUrl = `${this.getRegistryBaseUrl(host)}/v2/${repository}/manifests/${tag}`;
+    try {
+      let authorization: string | undefined = undefined;
+      let response = await axios.head(manifestUrl, {
+        headers: { 'Accept': this.MANIFEST_ACCEPT },
+        timeout: 10000,
+        validateStatus: () => true,
+      });
+      if (response.status === 401) {
+        const wwwAuth = response.headers['www-authenticate'] as string | undefined;
+        if (!wwwAuth) return {};
+        authorization = await this.getAuthorization(host, repository, wwwAuth);
+        response = await axios.head(manifestUrl, {
+          headers: { 'Accept': this.MANIFEST_ACCEPT, Authorization: authorization },
+          timeout: 10000,
+          validateStatus: () => true,
+        });
+      }
+      this.recordRateLimit(host, response.headers);
+      const digest = response.status === 200 ? response.headers['docker-content-digest'] as string | undefined : undefined;
+      console.log(`[Registry] Manifest HEAD`, { host, repository, tag, status: response.status, digest: digest?.substring(0, 19) });
+      return { digest, etag: response.headers['etag'] as string | undefined, authorization };
+    } catch (e) {
+      console.warn(`[Registry] Manifest HEAD failed`, { host, repository, tag, error: e instanceof Error ? e.message : String(e) });
+      return {};
+    }
   }
 
-  // Fetch a registry manifest digest, handling Docker Registry v2 Bearer token flow (anonymous)
+  // Fetch a registry manifest digest. With a cached result, a HEAD comes first and the cached result is reused when
+  // the tag's digest is unchanged; if the HEAD gives no digest, the GET is made conditional on an ETag the registry
+  // sent with an earlier HEAD, if any. Without a cached result there is nothing to revalidate, so the manifests are downloaded
+  // straight away.
   private static async fetchDigestWithAuth(
     host: string,
     repository: string,
     tag: string,
-    retryCount: number = 0
-  ): Promise<{ sha: string; lastUpdated?: string; platform?: string }> {
-    console.log(`[Registry] Fetch manifest start`, { host, repository, tag });
+    targetPlatform?: string
+  ): Promise<ManifestResult> {
+    const cacheKey = `${host}/${repository}:${tag}@${targetPlatform || ''}`;
+    const cached = this.manifestCache.get(cacheKey);
+    const head = cached ? await this.headManifest(host, repository, tag) : {};
+
+    if (cached && head.digest && this.compareShas(cached.digest, head.digest)) {
+      console.log(`[Registry] Digest unchanged, skipping manifest download`, { host, repository, tag, targetPlatform });
+      cached.etag = head.etag || cached.etag;
+      this.setCachedManifest(cacheKey, cached);
+      return cached.result;
+    }
+
+    const conditional = cached?.etag && !head.digest ? { etag: cached.etag, result: cached.result } : undefined;
+    const result = await this.fetchManifestWithAuth(host, repository, tag, targetPlatform, head.authorization, conditional);
+    this.setCachedManifest(cacheKey, { digest: head.digest || result.indexDigest || result.sha, etag: head.etag, result });
+    return result;
+  }
+
+  // (Re)insert a cache entry as the most recently used and drop the oldest beyond MAX_CACHED_MANIFESTS
+  private static setCachedManifest(cacheKey: string, entry: { digest: string; etag?: string; result: ManifestResult }): void {
+    this.manifestCache.delete(cacheKey);
+    this.manifestCache.set(cacheKey, entry);
+    for (const key of this.manifestCache.keys()) {
+      if (this.manifestCache.size <= this.MAX_CACHED_MANIFESTS) break;
+      this.manifestCache.delete(key);
+    }
+  }
+
+  // Download the manifest (list first, then single), following the Docker Registry v2 WWW-Authenticate challenge
+  // (Bearer token flow or Basic). A 304 answer to If-None-Match returns the cached result unchanged.
+  private static async fetchManifestWithAuth(
+    host: string,
+    repository: string,
+    tag: string,
+    targetPlatform?: string,
+    knownAuthorization?: string,
+    cached?: { etag: string; result: ManifestResult }
+  ): Promise<ManifestResult> {
+    console.log(`[Registry] Fetch manifest start`, { host, repository, tag, targetPlatform, conditional: !!cached });
     
     // Debug logging for registry requests
     if (host !== 'registry-1.docker.io' && host !== 'ghcr.io' && host !== 'lscr.io') {
       console.log(`[DEBUG] Attempting to fetch from registry: ${host}/${repository}:${tag}`);
     }
-    const baseUrl = `https://${host}`;
+    const baseUrl = this.getRegistryBaseUrl(host);
     const manifestUrl = `${baseUrl}/v2/${repository}/manifests/${tag}`;
 
     // Try manifest list first (most common for modern images), then fall back to single manifests
@@ -190,13 +744,24 @@ export class RegistryService {
       'Accept': 'application/vnd.docker.distribution.manifest.v2+json, application/vnd.oci.image.manifest.v1+json'
     } as const;
 
+    // Authorization obtained during the HEAD, and the If-None-Match precondition for the manifest list request
+    const authHeaders: Record<string, string> = knownAuthorization ? { Authorization: knownAuthorization } : {};
+    const conditionalHeaders: Record<string, string> = cached ? { 'If-None-Match': cached.etag } : {};
+
     // Try manifest list first (most common for modern images)
     console.log(`[Registry] Trying manifest list first`, { host, repository, tag });
-    let response = await axios.get(manifestUrl, {
-      headers: manifestListHeaders,
+    let response = await this.sendWithRetry(host, () => axios.get(manifestUrl, {
+      headers: { ...manifestListHeaders, ...authHeaders, ...conditionalHeaders },
       timeout: 10000,
       validateStatus: () => true,
-    });
+    }), { repository, tag });
+
+    this.recordRateLimit(host, response.headers);
+
+    if (response.status === 304 && cached) {
+      console.log(`[Registry] Manifest not modified`, { host, repository, tag });
+      return cached.result;
+    }
 
     if (response.status === 200) {
       const contentType = response.headers['content-type'] || '';
@@ -207,12 +772,10 @@ export class RegistryService {
           (response.data && (response.data.manifests || response.data.mediaType?.includes('manifest.list')))) {
         console.log(`[Registry] Processing manifest list`, { host, repository, tag });
         
-        // Find a suitable platform manifest (prefer linux/amd64)
+        // Find the manifest for the target platform (default linux/amd64)
         const manifests = response.data?.manifests || [];
-        const preferredPlatform = manifests.find((m: any) => 
-          m.platform?.architecture === 'amd64' && m.platform?.os === 'linux'
-        );
-        const selectedManifest = preferredPlatform || manifests[0];
+        const selectedManifest = this.selectPlatformManifest(manifests, targetPlatform);
+        const listDigests = this.getManifestListDigests(response, manifests);
         
         if (selectedManifest?.digest) {
           console.log(`[Registry] Selected platform manifest`, { 
@@ -223,16 +786,17 @@ export class RegistryService {
           
           // Fetch the specific platform manifest
           const platformManifestUrl = `${baseUrl}/v2/${repository}/manifests/${selectedManifest.digest}`;
-          const platformResponse = await axios.get(platformManifestUrl, {
-            headers: singleManifestHeaders,
+          const platformResponse = await this.sendWithRetry(host, () => axios.get(platformManifestUrl, {
+            headers: { ...singleManifestHeaders, ...authHeaders },
             timeout: 10000,
             validateStatus: () => true,
-          });
+          }), { repository, tag });
           
           if (platformResponse.status === 200) {
             console.log(`[Registry] Platform manifest OK`, { host, repository, tag, status: platformResponse.status });
-            const platformString = `${selectedManifest.platform?.os || 'unknown'}/${selectedManifest.platform?.architecture || 'unknown'}`;
-            return this.extractDigestAndTimestamp(platformResponse, baseUrl, repository, tag, platformString, undefined);
+            const platformString = formatPlatform(selectedManifest.platform || {});
+            const result = await this.extractDigestAndTimestamp(platformResponse, baseUrl, repository, tag, platformString, knownAuthorization);
+            return { ...result, ...listDigests };
           } else {
             console.warn(`[Registry] Platform manifest failed`, { 
               host, repository, tag, 
@@ -249,22 +813,16 @@ export class RegistryService {
       } else {
         // Not a manifest list, treat as single manifest
         console.log(`[Registry] Single manifest (not list)`, { host, repository, tag });
-        return this.extractDigestAndTimestamp(response, baseUrl, repository, tag, undefined, undefined);
+        return this.extractDigestAndTimestamp(response, baseUrl, repository, tag, undefined, knownAuthorization);
       }
     } else if (response.status === 404) {
       console.log(`[Registry] Manifest list not found, trying single manifest`, { host, repository, tag });
     } else if (response.status === 429) {
-      // Rate limited - retry with exponential backoff
-      const maxRetries = this.getRegistryMaxRetries(host);
-      if (retryCount < maxRetries) {
-        const delay = this.getRegistryDelay(host) * Math.pow(2, retryCount);
-        console.log(`[Registry] Rate limited, retrying in ${delay}ms`, { host, repository, tag, retryCount: retryCount + 1, maxRetries });
-        await this.sleep(delay);
-        return this.fetchDigestWithAuth(host, repository, tag, retryCount + 1);
-      } else {
-        console.warn(`[Registry] Max retries exceeded for rate limiting`, { host, repository, tag, retryCount, maxRetries });
-        throw new Error(`Rate limited after ${maxRetries} retries`);
-      }
+      console.warn(`[Registry] Still rate limited after retries`, { host, repository, tag });
+      throw new RegistryCheckError('rate_limited', `Rate limited after ${this.getMaxRetries()} retries`);
+    } else if (response.status >= 500 && response.status !== 501) {
+      // Already retried; the single manifest request would fail the same way
+      throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status} after ${this.getMaxRetries()} retries`);
     } else {
       console.log(`[Registry] Manifest list request failed`, { 
         host, repository, tag, 
@@ -275,108 +833,50 @@ export class RegistryService {
 
     // Fallback to single manifest if manifest list failed
     console.log(`[Registry] Trying single manifest`, { host, repository, tag });
-    response = await axios.get(manifestUrl, {
-      headers: singleManifestHeaders,
+    response = await this.sendWithRetry(host, () => axios.get(manifestUrl, {
+      headers: { ...singleManifestHeaders, ...authHeaders },
       timeout: 10000,
       validateStatus: () => true,
-    });
+    }), { repository, tag });
+
+    this.recordRateLimit(host, response.headers);
 
     if (response.status === 200) {
       console.log(`[Registry] Single manifest OK`, { host, repository, tag, status: response.status, contentType: response.headers['content-type'] });
-      return this.extractDigestAndTimestamp(response, baseUrl, repository, tag, undefined, undefined);
+      return this.extractDigestAndTimestamp(response, baseUrl, repository, tag, undefined, knownAuthorization);
     }
 
     if (response.status === 404) {
       console.warn(`[Registry] Manifest not found`, { host, repository, tag, status: response.status });
-      throw new Error(`Image not found: ${repository}:${tag} (404 - Image may not exist or be private)`);
+      throw new RegistryCheckError('not_found', `Image not found: ${repository}:${tag} (404 - Image may not exist or be private)`);
     }
 
     if (response.status === 429) {
-      // Rate limited - retry with exponential backoff
-      const maxRetries = this.getRegistryMaxRetries(host);
-      if (retryCount < maxRetries) {
-        const delay = this.getRegistryDelay(host) * Math.pow(2, retryCount);
-        console.log(`[Registry] Rate limited on single manifest, retrying in ${delay}ms`, { host, repository, tag, retryCount: retryCount + 1, maxRetries });
-        await this.sleep(delay);
-        return this.fetchDigestWithAuth(host, repository, tag, retryCount + 1);
-      } else {
-        console.warn(`[Registry] Max retries exceeded for rate limiting on single manifest`, { host, repository, tag, retryCount, maxRetries });
-        throw new Error(`Rate limited after ${maxRetries} retries`);
-      }
+      console.warn(`[Registry] Still rate limited after retries on single manifest`, { host, repository, tag });
+      throw new RegistryCheckError('rate_limited', `Rate limited after ${this.getMaxRetries()} retries`);
     }
 
     if (response.status === 401) {
       const wwwAuth = response.headers['www-authenticate'] as string | undefined;
       console.warn(`[Registry] Manifest unauthorized`, { host, repository, tag, status: response.status, wwwAuth });
-      if (!wwwAuth) throw new Error(`Unauthorized and no WWW-Authenticate header from ${host}`);
-
-      // Parse Bearer realm,service,scope
-      const realmMatch = /realm="([^"]+)"/.exec(wwwAuth);
-      const serviceMatch = /service="([^"]+)"/.exec(wwwAuth);
-      const scopeMatch = /scope="([^"]+)"/.exec(wwwAuth);
-
-      const realm = realmMatch?.[1];
-      const service = serviceMatch?.[1];
-      // Ensure we have pull scope
-      const scope = scopeMatch?.[1] || `repository:${repository}:pull`;
-      if (!realm || !service) throw new Error(`Malformed WWW-Authenticate header from ${host}`);
-
-      // Check token cache first
-      const tokenCacheKey = `${host}:${service}:${scope}`;
-      let token = this.getCachedToken(tokenCacheKey);
-      
-      if (!token) {
-        // Check if Docker Hub credentials are available for authenticated requests
-        const credentials = host === 'registry-1.docker.io' ? this.getDockerHubCredentials() : null;
-        const isAuthenticated = !!credentials;
-        
-        console.log(`[Registry] Token request ${isAuthenticated ? '(authenticated)' : '(anonymous)'}`, { realm, service, scope });
-        
-        // Prepare request headers with Basic Auth if credentials available
-        const headers: Record<string, string> = {};
-        if (credentials) {
-          const authString = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
-          headers['Authorization'] = `Basic ${authString}`;
-        }
-        
-        const tokenResp = await axios.get(realm, {
-          params: { service, scope },
-          headers: headers,
-          timeout: 15000, // Increased timeout for token requests
-          validateStatus: () => true,
-        });
-        
-        // Parse rate limit headers if available
-        const rateLimitRemaining = tokenResp.headers['ratelimit-remaining'];
-        const rateLimitLimit = tokenResp.headers['ratelimit-limit'];
-        const rateLimitReset = tokenResp.headers['ratelimit-reset'];
-        
-        console.log(`[Registry] Token response`, { 
-          status: tokenResp.status, 
-          hasToken: !!tokenResp.data?.token,
-          authenticated: isAuthenticated,
-          rateLimit: rateLimitLimit ? `${rateLimitRemaining}/${rateLimitLimit}` : undefined,
-          resetTime: rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000).toISOString() : undefined
-        });
-        
-        if (tokenResp.status !== 200 || !tokenResp.data?.token) {
-          console.warn(`[Registry] Token request failed`, { status: tokenResp.status, data: tokenResp.data });
-          throw new Error(`Token service failed with status ${tokenResp.status}: ${JSON.stringify(tokenResp.data)}`);
-        }
+      if (!wwwAuth) throw new RegistryCheckError('unsupported_registry', `Unauthorized and no WWW-Authenticate header from ${host}`);
 
-        token = tokenResp.data.token as string;
-        
-        // Cache the token (Docker tokens typically expire in 5 minutes)
-        this.cacheToken(tokenCacheKey, token, 300);
-      }
+      const authorization = await this.getAuthorization(host, repository, wwwAuth);
       
       // Retry with authentication - try manifest list first, then single manifest
-      console.log(`[Registry] Retrying with Bearer token - trying manifest list first`);
-      let authResponse = await axios.get(manifestUrl, {
-        headers: { ...manifestListHeaders, Authorization: `Bearer ${token}` },
+      console.log(`[Registry] Retrying with ${authorization.split(' ')[0]} auth - trying manifest list first`);
+      let authResponse = await this.sendWithRetry(host, () => axios.get(manifestUrl, {
+        headers: { ...manifestListHeaders, ...conditionalHeaders, Authorization: authorization },
         timeout: 15000,
         validateStatus: () => true,
-      });
+      }), { repository, tag });
+
+      this.recordRateLimit(host, authResponse.headers);
+
+      if (authResponse.status === 304 && cached) {
+        console.log(`[Registry] Authenticated manifest not modified`, { host, repository, tag });
+        return cached.result;
+      }
       
       if (authResponse.status === 200) {
         const contentType = authResponse.headers['content-type'] || '';
@@ -387,12 +887,10 @@ export class RegistryService {
             (authResponse.data && (authResponse.data.manifests || authResponse.data.mediaType?.includes('manifest.list')))) {
           console.log(`[Registry] Processing authenticated manifest list`, { host, repository, tag });
           
-          // Find a suitable platform manifest (prefer linux/amd64)
+          // Find the manifest for the target platform (default linux/amd64)
           const manifests = authResponse.data?.manifests || [];
-          const preferredPlatform = manifests.find((m: any) => 
-            m.platform?.architecture === 'amd64' && m.platform?.os === 'linux'
-          );
-          const selectedManifest = preferredPlatform || manifests[0];
+          const selectedManifest = this.selectPlatformManifest(manifests, targetPlatform);
+          const listDigests = this.getManifestListDigests(authResponse, manifests);
           
           if (selectedManifest?.digest) {
             console.log(`[Registry] Selected authenticated platform manifest`, { 
@@ -403,16 +901,17 @@ export class RegistryService {
             
             // Fetch the specific platform manifest
             const platformManifestUrl = `${baseUrl}/v2/${repository}/manifests/${selectedManifest.digest}`;
-            const platformResponse = await axios.get(platformManifestUrl, {
-              headers: { ...singleManifestHeaders, Authorization: `Bearer ${token}` },
+            const platformResponse = await this.sendWithRetry(host, () => axios.get(platformManifestUrl, {
+              headers: { ...singleManifestHeaders, Authorization: authorization },
               timeout: 15000,
             validateStatus: () => true,
-          });
+          }), { repository, tag });
             
             if (platformResponse.status === 200) {
               console.log(`[Registry] Authenticated platform manifest OK`, { host, repository, tag, status: platformResponse.status });
-              const platformString = `${selectedManifest.platform?.os || 'unknown'}/${selectedManifest.platform?.architecture || 'unknown'}`;
-              return this.extractDigestAndTimestamp(platformResponse, baseUrl, repository, tag, platformString, token);
+              const platformString = formatPlatform(selectedManifest.platform || {});
+              const result = await this.extractDigestAndTimestamp(platformResponse, baseUrl, repository, tag, platformString, authorization);
+              return { ...result, ...listDigests };
             } else {
               console.warn(`[Registry] Authenticated platform manifest failed`, { 
                 host, repository, tag, 
@@ -429,22 +928,15 @@ export class RegistryService {
         } else {
           // Not a manifest list, treat as single manifest
           console.log(`[Registry] Authenticated single manifest (not list)`, { host, repository, tag });
-          return this.extractDigestAndTimestamp(authResponse, baseUrl, repository, tag, undefined, token);
+          return this.extractDigestAndTimestamp(authResponse, baseUrl, repository, tag, undefined, authorization);
         }
       } else if (authResponse.status === 404) {
         console.log(`[Registry] Authenticated manifest list not found, trying single manifest`);
       } else if (authResponse.status === 429) {
-        // Rate limited on authenticated manifest list - retry with exponential backoff
-        const maxRetries = this.getRegistryMaxRetries(host);
-        if (retryCount < maxRetries) {
-          const delay = this.getRegistryDelay(host) * Math.pow(2, retryCount);
-          console.log(`[Registry] Rate limited on authenticated manifest list, retrying in ${delay}ms`, { host, repository, tag, retryCount: retryCount + 1, maxRetries });
-          await this.sleep(delay);
-          return this.fetchDigestWithAuth(host, repository, tag, retryCount + 1);
-        } else {
-          console.warn(`[Registry] Max retries exceeded for rate limiting on authenticated manifest list`, { host, repository, tag, retryCount, maxRetries });
-          throw new Error(`Rate limited after ${maxRetries} retries`);
-        }
+        console.warn(`[Registry] Still rate limited after retries on authenticated manifest list`, { host, repository, tag });
+        throw new RegistryCheckError('rate_limited', `Rate limited after ${this.getMaxRetries()} retries`);
+      } else if (authResponse.status >= 500 && authResponse.status !== 501) {
+        throw new RegistryCheckError(checkErrorCodeForStatus(authResponse.status), `Registry responded with status ${authResponse.status} after ${this.getMaxRetries()} retries`);
       } else {
         console.log(`[Registry] Authenticated manifest list request failed`, { 
           host, repository, tag, 
@@ -454,260 +946,102 @@ export class RegistryService {
       }
 
       // Fallback to single manifest with auth
-      console.log(`[Registry] Retrying single manifest with Bearer token`);
-      authResponse = await axios.get(manifestUrl, {
-        headers: { ...singleManifestHeaders, Authorization: `Bearer ${token}` },
+      console.log(`[Registry] Retrying single manifest with ${authorization.split(' ')[0]} auth`);
+      authResponse = await this.sendWithRetry(host, () => axios.get(manifestUrl, {
+        headers: { ...singleManifestHeaders, Authorization: authorization },
         timeout: 15000,
         validateStatus: () => true,
-      });
+      }), { repository, tag });
       
       console.log(`[Registry] Authenticated manifest response`, { status: authResponse.status });
+      this.recordRateLimit(host, authResponse.headers);
 
       if (authResponse.status === 200) {
         console.log(`[Registry] Authenticated single manifest OK`, { host, repository, tag, status: authResponse.status, contentType: authResponse.headers['content-type'] });
-        return this.extractDigestAndTimestamp(authResponse, baseUrl, repository, tag, undefined, token);
+        return this.extractDigestAndTimestamp(authResponse, baseUrl, repository, tag, undefined, authorization);
       } else if (authResponse.status === 429) {
-        // Rate limited on authenticated single manifest - retry with exponential backoff
-        const maxRetries = this.getRegistryMaxRetries(host);
-        if (retryCount < maxRetries) {
-          const delay = this.getRegistryDelay(host) * Math.pow(2, retryCount);
-          console.log(`[Registry] Rate limited on authenticated single manifest, retrying in ${delay}ms`, { host, repository, tag, retryCount: retryCount + 1, maxRetries });
-          await this.sleep(delay);
-          return this.fetchDigestWithAuth(host, repository, tag, retryCount + 1);
-        } else {
-          console.warn(`[Registry] Max retries exceeded for rate limiting on authenticated single manifest`, { host, repository, tag, retryCount, maxRetries });
-          throw new Error(`Rate limited after ${maxRetries} retries`);
-        }
+        console.warn(`[Registry] Still rate limited after retries on authenticated single manifest`, { host, repository, tag });
+        throw new RegistryCheckError('rate_limited', `Rate limited after ${this.getMaxRetries()} retries`);
       } else {
         console.warn(`[Registry] Authenticated manifest failed`, { host, repository, tag, status: authResponse.status, data: authResponse.data });
-        throw new Error(`Manifest fetch failed after auth with status ${authResponse.status}`);
+        throw new RegistryCheckError(checkErrorCodeForStatus(authResponse.status), `Manifest fetch failed after auth with status ${authResponse.status}`);
       }
     }
 
     console.warn(`[Registry] Manifest unexpected status`, { host, repository, tag, status: response.status, headers: response.headers, data: response.data });
-    throw new Error(`Registry responded with status ${response.status}`);
-  }
-  // Helper method to determine if a string looks like a registry domain
-  private static isRegistryDomain(domain: string): boolean {
-    return domain.includes('.');
+    throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status}`);
   }
-
-
   private static parseImagePath(imagePath: string): ParsedImage {
-    // Remove tag from imagePath for parsing (e.g., "nginx:latest" -> "nginx")
-    const [imageWithoutTag] = imagePath.split(':');
-    
-    console.log(`[ParseImage] Parsing image path: "${imagePath}" -> "${imageWithoutTag}"`);
-    
-    // Handle known registries first
-    if (imageWithoutTag.startsWith('ghcr.io/')) {
-      const path = imageWithoutTag.replace('ghcr.io/', '');
-      const parts = path.split('/');
-      if (parts.length >= 2) {
-        return {
-          registry: 'github',
-          namespace: parts[0],
-          image: parts[1],
-          fullPath: imagePath
-        };
-      }
-    }
-    
-    if (imageWithoutTag.startsWith('lscr.io/')) {
-      const path = imageWithoutTag.replace('lscr.io/', '');
-      const parts = path.split('/');
-      if (parts.length >= 2) {
-        return {
-          registry: 'lscr',
-          namespace: parts[0],
-          image: parts[1],
-          fullPath: imagePath
-        };
-      }
-    }
-    
-    if (imageWithoutTag.startsWith('docker.io/') || imageWithoutTag.startsWith('registry.hub.docker.com/')) {
-      const path = imageWithoutTag.replace(/^(docker\.io\/|registry\.hub\.docker\.com\/)/, '');
-      const parts = path.split('/');
-      if (parts.length >= 2) {
-        return {
-          registry: 'dockerhub',
-          namespace: parts[0],
-          image: parts[1],
-          fullPath: imagePath
-        };
-      } else if (parts.length === 1) {
-        // Official image like docker.io/nginx
-        return {
-          registry: 'dockerhub',
-          namespace: 'library',
-          image: parts[0],
-          fullPath: imagePath
-        };
-      }
-    }
-    
-    // For MVP, any other registry domain is unsupported
-    const parts = imageWithoutTag.split('/');
-    if (parts.length >= 2 && this.isRegistryDomain(parts[0])) {
-      return {
-        registry: 'unsupported',
-        namespace: parts[1],
-        image: parts.slice(2).join('/') || parts[1],
-        fullPath: imagePath,
-        registryDomain: parts[0]
-      }
-    }
-    
-    // Handle short paths (most common case) - assume Docker Hub
-    if (parts.length === 2) {
-      // user/image format - assume Docker Hub
-      const result = {
-        registry: 'dockerhub' as const,
-        namespace: parts[0],
-        image: parts[1],
-        fullPath: imagePath
-      };
-      console.log(`[ParseImage] Parsed as Docker Hub:`, result);
-      return result;
-    } else if (parts.length === 1) {
-      // Single name like "nginx" - assume Docker Hub official image
-      return {
-        registry: 'dockerhub',
-        namespace: 'library',
-        image: parts[0],
-        fullPath: imagePath
-      };
-    }
-    
-    // Default to Docker Hub for single name images
-    return {
-      registry: 'dockerhub',
-      namespace: 'library',
-      image: imageWithoutTag,
-      fullPath: imagePath
+    // Tag and digest are tracked separately; only the name identifies the repository
+    const reference = parseImageReference(imagePath);
+    const segments = reference.path.split('/');
+    const base = {
+      repository: reference.path,
+      namespace: segments.slice(0, -1).join('/'),
+      image: segments[segments.length - 1],
+      fullPath: imagePath,
+      registryDomain: reference.domain,
     };
-  }
-  // Utilities for semver handling without external deps
-  private static parseSemver(tag: string): { major: number, minor: number, patch: number } | null {
-    const match = tag.trim().replace(/^v/, '').match(/^(\d+)\.(\d+)\.(\d+)$/);
-    if (!match) return null;
-    return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]) };
-  }
-
-  // Helper function to check if a tag should be treated like a v-prefixed version (skip version resolution)
-  private static isVersionSpecificTag(tag: string): boolean {
-    // Match v-prefixed versions like v1.2.3
-    const vPrefixedPattern = /^v\d+\.\d+\.\d+/;
-    // Match versions with additional characters after semantic version like 0.1.0-beta.4, 1.2.3-rc.1, etc.
-    const extendedVersionPattern = /^\d+\.\d+\.\d+[^0-9]/;
-    return vPrefixedPattern.test(tag) || extendedVersionPattern.test(tag);
-  }
 
-  private static compareSemver(a: { major: number, minor: number, patch: number }, b: { major: number, minor: number, patch: number }): number {
-    if (a.major !== b.major) return a.major - b.major;
-    if (a.minor !== b.minor) return a.minor - b.minor;
-    return a.patch - b.patch;
-  }
-
-  private static async listDockerHubTags(image: string, pageSize: number = 100, maxPages: number = 3): Promise<Array<{ name: string, last_updated?: string }>> {
-    const tags: Array<{ name: string, last_updated?: string }> = [];
-    let url = `https://hub.docker.com/v2/repositories/${image}/tags?page_size=${pageSize}&ordering=-last_updated`;
-    for (let page = 0; page < maxPages && url; page++) {
-      const response = await axios.get(url, {
-        headers: { 'Accept': 'application/json' },
-        timeout: 5000,
-        validateStatus: () => true,
-      });
-      if (response.status === 429) throw new Error('Docker Hub API rate limited');
-      if (response.status === 404) throw new Error(`Repository not found: ${image}`);
-      if (response.status !== 200) throw new Error(`Docker Hub API failed with status ${response.status}`);
-      const data = response.data;
-      if (Array.isArray(data.results)) {
-        for (const r of data.results) {
-          tags.push({ name: r.name, last_updated: r.last_updated });
-        }
-      }
-      url = data.next || '';
+    console.log(`[ParseImage] Parsing image path: "${imagePath}" -> "${reference.domain}/${reference.path}"`);
+
+    switch (reference.domain) {
+      case 'docker.io':
+        return { registry: 'dockerhub', ...base };
+      case 'ghcr.io':
+        return { registry: 'github', ...base };
+      case 'lscr.io':
+        return { registry: 'lscr', ...base };
+      default:
+        // Any other registry domain is treated as a generic OCI Distribution v2 registry (quay.io, Harbor, registry:2, ...)
+        return { registry: 'generic', ...base };
     }
-    return tags;
   }
 
-  private static async resolveDockerHubLatestByDigest(image: string): Promise<{ tag: string, lastUpdated?: string } | undefined> {
-    try {
-      console.log(`[DockerHub] Resolving latest version by digest for ${image}`);
-      // First get the digest for the 'latest' tag
-      const latestManifest = await this.getDockerHubManifest(image, 'latest');
-      const latestDigest = latestManifest.sha;
-      console.log(`[DockerHub] Latest digest: ${latestDigest.substring(0, 12)}...`);
-      
-      // List tags and find semver tags matching the latest digest
-      const tags = await this.listDockerHubTags(image);
-      console.log(`[DockerHub] Found ${tags.length} tags to check`);
-      
-      let bestTag: { name: string, last_updated?: string } | null = null;
-      let bestSemver: { major: number, minor: number, patch: number } | null = null;
-      let matchingTags: string[] = [];
-      let allMatchingTags: string[] = [];
-      
-      for (const t of tags) {
-        try {
-          const manifest = await this.fetchDigestWithAuth('registry-1.docker.io', image.includes('/') ? image : `library/${image}`, t.name);
-          if (manifest.sha === latestDigest) {
-            allMatchingTags.push(t.name);
-            const parsed = this.parseSemver(t.name);
-            if (parsed) {
-              matchingTags.push(t.name);
-              if (!bestSemver || this.compareSemver(parsed, bestSemver) > 0) {
-                bestSemver = parsed;
-                bestTag = t;
-              }
-            }
-          }
-        } catch {
-          // Ignore individual tag fetch failures
-        }
-      }
-      
-      console.log(`[DockerHub] All tags matching latest digest: [${allMatchingTags.join(', ')}]`);
-      console.log(`[DockerHub] Semver tags matching latest digest: [${matchingTags.join(', ')}]`);
-      
-      if (bestTag) {
-        // Sort all matching tags: semver tags first (highest to lowest), then non-semver tags
-        const semverTags = allMatchingTags.filter(t => this.parseSemver(t)).sort((a, b) => {
-          const aParsed = this.parseSemver(a)!;
-          const bParsed = this.parseSemver(b)!;
-          return this.compareSemver(bParsed, aParsed); // Descending order
-        });
-        const nonSemverTags = allMatchingTags.filter(t => !this.parseSemver(t)).sort();
-        const sortedTags = [...semverTags, ...nonSemverTags];
-        
-        const displayTag = sortedTags.join(', ');
-        console.log(`[DockerHub] Selected tags: ${displayTag}`);
-        return { tag: displayTag, lastUpdated: bestTag.last_updated };
-      }
-      
-      // Fallback: if no semver tag matches, return 'latest'
-      console.log(`[DockerHub] No semver tags match latest digest, falling back to 'latest'`);
-      return { tag: 'latest', lastUpdated: latestManifest.lastUpdated };
-    } catch (e) {
-      console.warn('[DockerHub] Failed to resolve latest by digest', e);
-      return undefined;
+  // Picks the newest tag a container may move to: within its tag pattern when set, else by its version scheme and update policy
+  private static getTagSelector(container: ContainerRegistry, currentTag: string): (tags: string[]) => string | null {
+    const tagPattern = container.tagPattern;
+    if (tagPattern) {
+      return (tags) => {
+        const latest = findLatestMatchingTag(tags, tagPattern);
+        return latest && isNewerMatchingTag(tagPattern, latest, currentTag) ? latest : null;
+      };
     }
+    const policy: UpdatePolicy = container.updatePolicy || 'any';
+    const includePrerelease = Boolean(container.includePrerelease);
+    const scheme: VersionScheme = container.versionScheme || 'semver';
+    return (tags) => VersionService.findLatestAllowed(tags, currentTag, policy, includePrerelease, scheme);
   }
 
-  private static async getLatestSemverVersionForGHCR(namespace: string, image: string, currentTag: string): Promise<{latestTag: string, latestUpdated?: string}> {
+  private static async getLatestSemverVersionForGHCR(repository: string, currentTag: string, selectTag: (tags: string[]) => string | null): Promise<{latestTag: string, latestUpdated?: string}> {
+    // The first path segment is the owner; nested package names (e.g. "group/app") must be URL-encoded
+    const [namespace, ...packagePath] = repository.split('/');
+    const image = packagePath.join('/');
     try {
       // Try to get package versions from GitHub API
-      // Note: This may require authentication for some repositories
-      const response = await axios.get(`https://api.github.com/orgs/${namespace}/packages/container/${image}/versions`, {
-        headers: {
-          'Accept': 'application/vnd.github+json',
-          'User-Agent': 'registry-radar',
-        },
+      // Note: This requires a token with read:packages (GITHUB_TOKEN, or the ghcr.io registry credential on api.github.com)
+      const headers: Record<string, string> = {
+        'Accept': 'application/vnd.github+json',
+        'User-Agent': 'registry-radar',
+      };
+      const token = await ReleaseNotesService.getToken();
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      // The owner is an organization or a user account; the organization endpoint answers 404 for a user
+      let response = await axios.get(`${ReleaseNotesService.getGitHubApiUrl()}/orgs/${namespace}/packages/container/${encodeURIComponent(image)}/versions`, {
+        headers,
         timeout: 30000, // 30 second timeout for this expensive operation
+        validateStatus: () => true,
       });
-
+      if (response.status === 404) {
+        response = await axios.get(`${ReleaseNotesService.getGitHubApiUrl()}/users/${namespace}/packages/container/${encodeURIComponent(image)}/versions`, {
+          headers,
+          timeout: 30000,
+          validateStatus: () => true,
+        });
+      }
+
       if (response.status !== 200) {
         throw new Error(`GitHub API returned status ${response.status}`);
       }
@@ -723,38 +1057,34 @@ export class RegistryService {
         }
       });
 
-      const semverTags = allTags
-        .filter((tagName: string) => this.parseSemver(tagName))
-        .sort((a: string, b: string) => {
-          const aParsed = this.parseSemver(a)!;
-          const bParsed = this.parseSemver(b)!;
-          return this.compareSemver(bParsed, aParsed); // Descending order (newest first)
-        });
-
-      console.log(`[GHCR] Found ${semverTags.length} semver tags for ${namespace}/${image}`);
+      // Highest version the container's tag pattern or update policy allows
+      const latestTag = selectTag(allTags);
+      console.log(`[GHCR] Latest allowed version for ${namespace}/${image}`, { currentTag, latestTag });
 
-      if (semverTags.length === 0) {
-        return { latestTag: currentTag }; // No semver tags found, return current tag
+      if (!latestTag) {
+        return { latestTag: currentTag }; // No newer allowed version, return current tag
       }
 
-      // Return the highest semver version
-      const latestTag = semverTags[0];
       return {
         latestTag: latestTag,
         latestUpdated: undefined // GitHub API doesn't provide last updated info in versions list
       };
 
     } catch (error) {
-      // If authentication is required or API fails, gracefully fall back
-      console.warn(`[GHCR] Version checking not available for ${namespace}/${image} (authentication required or API unavailable):`, error instanceof Error ? error.message : String(error));
-      
-      // Return the current tag to indicate no newer version was found
-      // This ensures the check doesn't fail and maintains existing functionality
-      return { latestTag: currentTag };
+      // If authentication is required or API fails, fall back to the registry's own tags list
+      console.warn(`[GHCR] Packages API not available for ${namespace}/${image} (authentication required or API unavailable), using registry tags list:`, error instanceof Error ? error.message : String(error));
+      try {
+        return await this.getLatestVersionFromRegistry('ghcr.io', repository, currentTag, selectTag);
+      } catch (listError) {
+        console.warn(`[GHCR] Version checking not available for ${namespace}/${image}:`, listError instanceof Error ? listError.message : String(listError));
+        // Return the current tag to indicate no newer version was found
+        // This ensures the check doesn't fail and maintains existing functionality
+        return { latestTag: currentTag };
+      }
     }
   }
 
-  private static async getLatestSemverVersion(image: string, currentTag: string): Promise<{latestTag: string, latestUpdated?: string}> {
+  private static async getLatestSemverVersion(image: string, currentTag: string, selectTag: (tags: string[]) => string | null): Promise<{latestTag: string, latestUpdated?: string}> {
     try {
       // Fetch all tags for the image
       const response = await axios.get(`https://hub.docker.com/v2/repositories/${image}/tags/?page_size=100`, {
@@ -771,27 +1101,18 @@ export class RegistryService {
       const tags = response.data.results || [];
       console.log(`[DockerHub] Found ${tags.length} total tags for ${image}`);
 
-      // Filter to only semver tags and parse them
-      const semverTags = tags
-        .map((t: any) => ({ name: t.name, updated: t.last_updated || t.tag_last_pushed }))
-        .filter((t: any) => this.parseSemver(t.name))
-        .sort((a: any, b: any) => {
-          const aParsed = this.parseSemver(a.name)!;
-          const bParsed = this.parseSemver(b.name)!;
-          return this.compareSemver(bParsed, aParsed); // Descending order (newest first)
-        });
-
-      console.log(`[DockerHub] Found ${semverTags.length} semver tags for ${image}`);
+      // Highest version the container's tag pattern or update policy allows
+      const latestName = selectTag(tags.map((t: any) => t.name));
+      console.log(`[DockerHub] Latest allowed version for ${image}`, { currentTag, latestTag: latestName });
 
-      if (semverTags.length === 0) {
-        return { latestTag: currentTag }; // No semver tags found, return current tag
+      if (!latestName) {
+        return { latestTag: currentTag }; // No newer allowed version, return current tag
       }
 
-      // Return the highest semver version
-      const latestTag = semverTags[0];
+      const latestTag = tags.find((t: any) => t.name === latestName);
       return {
-        latestTag: latestTag.name,
-        latestUpdated: latestTag.updated
+        latestTag: latestName,
+        latestUpdated: latestTag?.last_updated || latestTag?.tag_last_pushed
       };
 
     } catch (error) {
@@ -800,59 +1121,130 @@ export class RegistryService {
     }
   }
 
-  private static async getDockerHubManifest(image: string, tag: string, retryCount: number = 0): Promise<{sha: string, lastUpdated?: string, platform?: string}> {
+  // List a repository's tags through the Docker Registry v2 / OCI distribution API (GET /v2/<repo>/tags/list),
+  // following the Link header (rel="next") across pages. Works for lscr.io, GHCR and any OCI registry.
+  private static async listRegistryTags(host: string, repository: string, maxPages: number = 50): Promise<string[]> {
+    const baseUrl = this.getRegistryBaseUrl(host);
+    const tags: string[] = [];
+    let url: string | undefined = `${baseUrl}/v2/${repository}/tags/list?n=1000`;
+    let authorization: string | undefined = undefined;
+
+    for (let page = 0; page < maxPages && url; ) {
+      const pageUrl: string = url;
+      const response = await this.sendWithRetry(host, () => axios.get(pageUrl, {
+        headers: { 'Accept': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+        timeout: 15000,
+        validateStatus: () => true,
+      }), { repository, page });
+
+      if (response.status === 401 && !authorization) {
+        const wwwAuth = response.headers['www-authenticate'] as string | undefined;
+        if (!wwwAuth) throw new Error(`Unauthorized and no WWW-Authenticate header from ${host}`);
+        authorization = await this.getAuthorization(host, repository, wwwAuth);
+        continue;
+      }
+      if (response.status === 404) throw new Error(`Repository not found: ${host}/${repository}`);
+      if (response.status !== 200) throw new Error(`Tag listing failed with status ${response.status}`);
+
+      if (Array.isArray(response.data?.tags)) {
+        tags.push(...response.data.tags);
+      }
+
+      // Link: </v2/<repo>/tags/list?last=1.2.3&n=1000>; rel="next" (usually relative to the registry)
+      const link = response.headers['link'] as string | undefined;
+      const next = link ? /<([^>]+)>\s*;\s*rel="?next"?/i.exec(link)?.[1] : undefined;
+      url = next ? new URL(next, baseUrl).toString() : undefined;
+      page++;
+    }
+
+    if (url) {
+      console.warn(`[Registry] Stopped listing tags after ${maxPages} pages`, { host, repository, tags: tags.length });
+    }
+    return tags;
+  }
+
+  private static async getLatestVersionFromRegistry(host: string, repository: string, currentTag: string, selectTag: (tags: string[]) => string | null): Promise<{latestTag: string, latestUpdated?: string}> {
+    const tags = await this.listRegistryTags(host, repository);
+    console.log(`[Registry] Found ${tags.length} total tags for ${host}/${repository}`);
+
+    // Highest version the container's tag pattern or update policy allows
+    const latestTag = selectTag(tags);
+    console.log(`[Registry] Latest allowed version for ${host}/${repository}`, { currentTag, latestTag });
+
+    // The tags list carries no timestamps; latestUpdated stays unknown
+    return { latestTag: latestTag || currentTag };
+  }
+
+  private static async getDockerHubManifest(image: string, tag: string, targetPlatform?: string): Promise<ManifestResult> {
     // Prefer Docker Registry v2 token flow via registry-1.docker.io to avoid Hub API 429s
     try {
       const repository = image.includes('/') ? image : `library/${image}`;
       console.log(`[DockerHub] Using registry v2 for manifest`, { repository, tag });
       
       
-      return await this.fetchDigestWithAuth('registry-1.docker.io', repository, tag);
+      return await this.fetchDigestWithAuth('registry-1.docker.io', repository, tag, targetPlatform);
     } catch (primaryError) {
+      // The image exists but not for the requested platform; the Hub API would not change that
+      if (primaryError instanceof PlatformError) {
+        throw primaryError;
+      }
       const primaryMsg = primaryError instanceof Error ? primaryError.message : String(primaryError);
       console.warn(`[DockerHub] Registry v2 manifest fetch failed, falling back to Hub API`, { image, tag, error: primaryMsg });
       try {
         console.log(`Attempting Docker Hub API for: ${image}:${tag}`);
         
         
-        const response = await axios.get(
+        const response = await this.sendWithRetry('registry-1.docker.io', () => axios.get(
           `https://hub.docker.com/v2/repositories/${image}/tags/${tag}`,
           {
             headers: { 'Accept': 'application/json' },
             timeout: 5000,
             validateStatus: () => true, // Don't throw on 404
           }
-        );
+        ), { image, tag });
         
         if (response.status === 404) {
-          throw new Error(`Image not found: ${image}:${tag} (404 - Image may not exist or be private)`);
+          throw new RegistryCheckError('not_found', `Image not found: ${image}:${tag} (404 - Image may not exist or be private)`);
         }
         
         if (response.status === 429) {
-          // Rate limited on Docker Hub API - retry with exponential backoff
-          const maxRetries = this.getRegistryMaxRetries('registry-1.docker.io');
-          if (retryCount < maxRetries) {
-            const delay = this.getRegistryDelay('registry-1.docker.io') * Math.pow(2, retryCount);
-            console.log(`[DockerHub] Rate limited on Hub API, retrying in ${delay}ms`, { image, tag, retryCount: retryCount + 1, maxRetries });
-            await this.sleep(delay);
-            return this.getDockerHubManifest(image, tag, retryCount + 1);
-          } else {
-            console.warn(`[DockerHub] Max retries exceeded for rate limiting on Hub API`, { image, tag, retryCount, maxRetries });
-            throw new Error(`Docker Hub API rate limited after ${maxRetries} retries`);
-          }
+          console.warn(`[DockerHub] Still rate limited on Hub API after retries`, { image, tag });
+          throw new RegistryCheckError('rate_limited', `Docker Hub API rate limited after ${this.getMaxRetries()} retries`);
         }
         
         if (response.status !== 200) {
-          throw new Error(`Docker Hub API returned status ${response.status}: ${response.statusText}`);
+          throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Docker Hub API returned status ${response.status}: ${response.statusText}`);
         }
         console.log(`[DockerHub] tag API response`, { status: response.status, rateLimit: response.headers['ratelimit-remaining'], reset: response.headers['ratelimit-reset'] });
-        const sha = response.data.images?.[0]?.digest || response.data.id || '';
+        const tagImages: any[] = response.data.images || [];
+        const tagImage = targetPlatform
+          ? tagImages.find((i: any) => platformMatches(i, parsePlatform(targetPlatform)))
+          : tagImages[0];
+        if (targetPlatform && !tagImage) {
+          throw new PlatformError(`Platform ${targetPlatform} not available`);
+        }
+        const sha = tagImage?.digest || response.data.id || '';
         const lastUpdated = response.data.last_updated || response.data.tag_last_pushed || response.data.last_pushed;
         if (sha) {
-          return { sha, lastUpdated };
+          const platformDigests: Record<string, string> = {};
+          for (const i of tagImages) {
+            if (i?.digest && i.architecture && i.architecture !== 'unknown') {
+              platformDigests[formatPlatform(normalizePlatform(i))] = String(i.digest).replace('sha256:', '');
+            }
+          }
+          return {
+            sha,
+            lastUpdated,
+            platform: tagImage?.architecture ? formatPlatform(normalizePlatform(tagImage)) : undefined,
+            indexDigest: tagImages.length > 1 && response.data.digest ? String(response.data.digest).replace('sha256:', '') : undefined,
+            platformDigests: tagImages.length > 1 ? platformDigests : undefined,
+          };
         }
-        throw new Error('No SHA found in Docker Hub response');
+        throw new RegistryCheckError('parse_error', 'No SHA found in Docker Hub response');
       } catch (fallbackError) {
+        if (fallbackError instanceof PlatformError || fallbackError instanceof RegistryCheckError) {
+          throw fallbackError;
+        }
         const err: any = fallbackError;
         const status = err?.response?.status;
         const data = err?.response?.data;
@@ -872,192 +1264,954 @@ export class RegistryService {
         });
         
         // Provide more specific error message based on the error type
-        if (err?.code === 'ENOTFOUND' || err?.code === 'ECONNREFUSED') {
-          throw new Error(`Docker Hub API connection failed: ${errorMessage}`);
-        } else if (err?.code === 'ETIMEDOUT') {
-          throw new Error(`Docker Hub API timeout: ${errorMessage}`);
+        if (err?.code === 'ECONNABORTED' || err?.code === 'ETIMEDOUT') {
+          throw new RegistryCheckError('timeout', `Docker Hub API timeout: ${errorMessage}`);
+        } else if (!status) {
+          throw new RegistryCheckError('network', `Docker Hub API connection failed: ${errorMessage}`);
         } else if (status === 404) {
-          throw new Error(`Image not found: ${image}:${tag} (404 - Image may not exist or be private)`);
+          throw new RegistryCheckError('not_found', `Image not found: ${image}:${tag} (404 - Image may not exist or be private)`);
         } else if (status === 429) {
-          throw new Error(`Docker Hub API rate limited: ${errorMessage}`);
+          throw new RegistryCheckError('rate_limited', `Docker Hub API rate limited: ${errorMessage}`);
         } else {
-          throw new Error(`Docker Hub API failed: ${errorMessage}`);
+          throw new RegistryCheckError(checkErrorCodeForStatus(status), `Docker Hub API failed: ${errorMessage}`);
         }
       }
     }
   }
 
-  private static async getGitHubManifest(namespace: string, image: string, tag: string): Promise<{sha: string, lastUpdated?: string, platform?: string}> {
+  private static async getGitHubManifest(repository: string, tag: string, targetPlatform?: string): Promise<ManifestResult> {
     // Use generic Docker Registry v2 flow
-    return this.fetchDigestWithAuth('ghcr.io', `${namespace}/${image}`, tag);
+    return this.fetchDigestWithAuth('ghcr.io', repository, tag, targetPlatform);
   }
 
-  private static async getLscrManifest(namespace: string, image: string, tag: string): Promise<{sha: string, lastUpdated?: string, platform?: string}> {
+  private static async getLscrManifest(repository: string, tag: string, targetPlatform?: string): Promise<ManifestResult> {
     // Use generic Docker Registry v2 flow
-    return this.fetchDigestWithAuth('lscr.io', `${namespace}/${image}`, tag);
+    return this.fetchDigestWithAuth('lscr.io', repository, tag, targetPlatform);
+  }
+
+  private static async getGenericManifest(host: string, repository: string, tag: string, targetPlatform?: string): Promise<ManifestResult> {
+    // Use generic Docker Registry v2 flow
+    return this.fetchDigestWithAuth(host, repository, tag, targetPlatform);
+  }
+
+  // Classify a failed check: registry errors carry their code, anything else (axios errors escaping a lookup,
+  // unexpected exceptions) is classified from the response status or network error code.
+  // The message is what the UI shows; a missing platform is actionable as is, everything else gets the code's label.
+  private static classifyCheckError(error: unknown): { code: CheckErrorCode; message: string; detail: string } {
+    const detail = error instanceof Error ? error.message : String(error);
+    if (error instanceof PlatformError) {
+      return { code: 'not_found', message: error.message, detail };
+    }
+
+    let code: CheckErrorCode;
+    if (error instanceof RegistryCheckError) {
+      code = error.code;
+    } else if (axios.isAxiosError(error)) {
+      if (error.response) {
+        code = checkErrorCodeForStatus(error.response.status);
+      } else {
+        code = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network';
+      }
+    } else if (error instanceof SyntaxError || error instanceof TypeError) {
+      code = 'parse_error';
+    } else {
+      code = 'network';
+    }
+    return { code, message: CHECK_ERROR_LABELS[code], detail };
   }
 
 
+  // Only do expensive version resolution for version tags in the container's scheme (e.g., 1.2.1, v1.2.1,
+  // 0.1.0-beta.4 for semver; 2024.10.1 for calver) or a configured tag pattern.
+  // Failures are logged and leave the latest available tag unset; they never fail the check itself.
+  private static async resolveLatestAvailableTag(
+    container: ContainerRegistry,
+    tag: string,
+    imageLabel: string,
+    resolve: (selectTag: (tags: string[]) => string | null) => Promise<{ latestTag: string, latestUpdated?: string }>
+  ): Promise<{ latestAvailableTag?: string, latestAvailableUpdated?: string }> {
+    const tagPattern = container.tagPattern;
+    const versionScheme: VersionScheme = container.versionScheme || 'semver';
+    if (!tagPattern && !VersionService.parseVersion(tag, versionScheme)) {
+      console.log(`[Check] Tag "${tag}" is not ${versionScheme} format and has no tag pattern, skipping version resolution`);
+      return {};
+    }
+
+    console.log(`[Check] Tag "${tag}" is ${tagPattern ? 'tracked by pattern' : `${versionScheme} format`}, checking for newer versions...`, { tagPattern, updatePolicy: container.updatePolicy });
+    try {
+      const latestInfo = await resolve(this.getTagSelector(container, tag));
+      console.log(`[Check] Latest version found`, {
+        current: tag,
+        latest: latestInfo.latestTag,
+        hasNewer: latestInfo.latestTag !== tag
+      });
+      return { latestAvailableTag: latestInfo.latestTag, latestAvailableUpdated: latestInfo.latestUpdated };
+    } catch (versionError) {
+      console.warn(`[Check] Failed to get latest version for ${imageLabel}:${tag}`, versionError);
+      return {};
+    }
+  }
+
   static async checkRegistry(container: ContainerRegistry): Promise<RegistryCheckResult> {
     const now = new Date().toISOString();
     const tag = container.tag || 'latest'; // Default to 'latest' if no tag specified
+    const targetPlatform = container.platform || undefined;
+    const tagPattern = container.tagPattern || undefined;
     
     // Parse the image path to detect registry type
-    const parsed = this.parseImagePath(container.imagePath);
+    let parsed: ParsedImage;
+    try {
+      parsed = this.parseImagePath(container.imagePath);
+    } catch (e) {
+      console.error(`[Check] Invalid image reference`, { imagePath: container.imagePath, tag, error: e instanceof Error ? e.message : String(e) });
+      return {
+        image: container.imagePath,
+        tag,
+        targetPlatform,
+        currentSha: '',
+        latestSha: '',
+        hasUpdate: false,
+        lastChecked: now,
+        statusMessage: CHECK_ERROR_LABELS.parse_error,
+        error: true,
+        errorCode: 'parse_error',
+        errorDetail: e instanceof Error ? e.message : String(e),
+      };
+    }
     
-    console.log(`[Check] Starting check`, { imagePath: container.imagePath, tag, parsed });
+    console.log(`[Check] Starting check`, { imagePath: container.imagePath, tag, targetPlatform, parsed });
     let latestSha: string = '';
     let lastUpdated: string | undefined = undefined;
-    let errorMessage: string | undefined = undefined;
+    let checkError: { code: CheckErrorCode; message: string; detail: string } | undefined = undefined;
     let platform: string | undefined = undefined;
+    let indexDigest: string | undefined = undefined;
+    let platformDigests: Record<string, string> | undefined = undefined;
     let latestAvailableTag: string | undefined = undefined;
     let latestAvailableUpdated: string | undefined = undefined;
-      
-      if (parsed.registry === 'dockerhub') {
-      const fullImagePath = parsed.namespace === 'library' ? parsed.image : `${parsed.namespace}/${parsed.image}`;
+    let metadata: ImageMetadata | undefined = undefined;
+    
+    if (parsed.registry === 'dockerhub') {
+      const fullImagePath = parsed.namespace === 'library' ? parsed.image : parsed.repository;
       try {
-          const result = await this.getDockerHubManifest(fullImagePath, tag);
-          latestSha = result.sha;
-          lastUpdated = result.lastUpdated;
+        const result = await this.getDockerHubManifest(fullImagePath, tag, targetPlatform);
+        latestSha = result.sha;
+        lastUpdated = result.lastUpdated;
         platform = result.platform;
+        indexDigest = result.indexDigest;
+        platformDigests = result.platformDigests;
+        metadata = result.metadata;
         console.log(`[Check] Docker Hub OK`, { image: fullImagePath, tag, sha: latestSha.substring(0, 12), platform });
         
-        // Only do expensive version resolution for clean semver tags (e.g., 1.2.1)
-        // Skip version checking for version-specific tags (e.g., v1.2.1, 0.1.0-beta.4) as they're typically static release tags
-        const monitoredSemver = this.parseSemver(tag);
-        const isVersionSpecific = this.isVersionSpecificTag(tag);
-        
-        if (monitoredSemver && !isVersionSpecific) {
-          console.log(`[Check] Tag "${tag}" is clean semver format, checking for newer versions...`);
-          try {
-            const latestInfo = await this.getLatestSemverVersion(fullImagePath, tag);
-            latestAvailableTag = latestInfo.latestTag;
-            latestAvailableUpdated = latestInfo.latestUpdated;
-            console.log(`[Check] Latest semver version found`, { 
-              current: tag, 
-              latest: latestAvailableTag,
-              hasNewer: latestAvailableTag !== tag 
-            });
-          } catch (versionError) {
-            console.warn(`[Check] Failed to get latest semver version for ${fullImagePath}:${tag}`, versionError);
-            // Don't fail the entire check, just skip version resolution
-          }
-        } else if (monitoredSemver && isVersionSpecific) {
-          console.log(`[Check] Tag "${tag}" is version-specific format, skipping version resolution (typically static release tag)`);
-        } else {
-          console.log(`[Check] Tag "${tag}" is not semver format, skipping version resolution`);
-        }
-        } catch (e) {
-        errorMessage = 'check image and tag and try again';
+        ({ latestAvailableTag, latestAvailableUpdated } = await this.resolveLatestAvailableTag(container, tag, fullImagePath,
+          (selectTag) => this.getLatestSemverVersion(fullImagePath, tag, selectTag)));
+      } catch (e) {
+        checkError = this.classifyCheckError(e);
         console.error(`[Check] Docker Hub error`, { image: fullImagePath, tag, error: e instanceof Error ? e.message : String(e) });
-        }
-      } else if (parsed.registry === 'github') {
-        try {
-          const result = await this.getGitHubManifest(parsed.namespace, parsed.image, tag);
-          latestSha = result.sha;
-          lastUpdated = result.lastUpdated;
+      }
+    } else if (parsed.registry === 'github') {
+      try {
+        const result = await this.getGitHubManifest(parsed.repository, tag, targetPlatform);
+        latestSha = result.sha;
+        lastUpdated = result.lastUpdated;
         platform = result.platform;
-        console.log(`[Check] GHCR OK`, { image: `${parsed.namespace}/${parsed.image}`, tag, sha: latestSha.substring(0, 12), platform });
+        indexDigest = result.indexDigest;
+        platformDigests = result.platformDigests;
+        metadata = result.metadata;
+        console.log(`[Check] GHCR OK`, { image: parsed.repository, tag, sha: latestSha.substring(0, 12), platform });
         
-        // Only do expensive version resolution for clean semver tags (e.g., 1.2.1)
-        // Skip version checking for version-specific tags (e.g., v1.2.1, 0.1.0-beta.4) as they're typically static release tags
-        const monitoredSemver = this.parseSemver(tag);
-        const isVersionSpecific = this.isVersionSpecificTag(tag);
-        
-        if (monitoredSemver && !isVersionSpecific) {
-          console.log(`[Check] Tag "${tag}" is clean semver format, checking for newer versions...`);
-          try {
-            const latestInfo = await this.getLatestSemverVersionForGHCR(parsed.namespace, parsed.image, tag);
-            latestAvailableTag = latestInfo.latestTag;
-            latestAvailableUpdated = latestInfo.latestUpdated;
-            console.log(`[Check] Latest semver version found`, { 
-              current: tag, 
-              latest: latestAvailableTag,
-              hasNewer: latestAvailableTag !== tag 
-            });
-          } catch (versionError) {
-            console.warn(`[Check] Failed to get latest semver version for ${parsed.namespace}/${parsed.image}:${tag}`, versionError);
-            // Don't fail the entire check, just skip version resolution
-          }
-        } else if (monitoredSemver && isVersionSpecific) {
-          console.log(`[Check] Tag "${tag}" is version-specific format, skipping version resolution (typically static release tag)`);
-        } else {
-          console.log(`[Check] Tag "${tag}" is not semver format, skipping version resolution`);
-        }
-        } catch (e) {
-        errorMessage = 'check image and tag and try again';
-        console.error(`[Check] GHCR error`, { image: `${parsed.namespace}/${parsed.image}`, tag, error: e instanceof Error ? e.message : String(e) });
-        }
-      } else if (parsed.registry === 'lscr') {
-        try {
-          const result = await this.getLscrManifest(parsed.namespace, parsed.image, tag);
-          latestSha = result.sha;
-          lastUpdated = result.lastUpdated;
+        ({ latestAvailableTag, latestAvailableUpdated } = await this.resolveLatestAvailableTag(container, tag, parsed.repository,
+          (selectTag) => this.getLatestSemverVersionForGHCR(parsed.repository, tag, selectTag)));
+      } catch (e) {
+        checkError = this.classifyCheckError(e);
+        console.error(`[Check] GHCR error`, { image: parsed.repository, tag, error: e instanceof Error ? e.message : String(e) });
+      }
+    } else if (parsed.registry === 'lscr') {
+      try {
+        const result = await this.getLscrManifest(parsed.repository, tag, targetPlatform);
+        latestSha = result.sha;
+        lastUpdated = result.lastUpdated;
         platform = result.platform;
-        console.log(`[Check] LSCR OK`, { image: `${parsed.namespace}/${parsed.image}`, tag, sha: latestSha.substring(0, 12), platform });
-        } catch (e) {
-        errorMessage = 'check image and tag and try again';
-        console.error(`[Check] LSCR error`, { image: `${parsed.namespace}/${parsed.image}`, tag, error: e instanceof Error ? e.message : String(e) });
+        indexDigest = result.indexDigest;
+        platformDigests = result.platformDigests;
+        metadata = result.metadata;
+        console.log(`[Check] LSCR OK`, { image: parsed.repository, tag, sha: latestSha.substring(0, 12), platform });
+        ({ latestAvailableTag, latestAvailableUpdated } = await this.resolveLatestAvailableTag(container, tag, parsed.repository,
+          (selectTag) => this.getLatestVersionFromRegistry('lscr.io', parsed.repository, tag, selectTag)));
+      } catch (e) {
+        checkError = this.classifyCheckError(e);
+        console.error(`[Check] LSCR error`, { image: parsed.repository, tag, error: e instanceof Error ? e.message : String(e) });
+      }
+    } else if (parsed.registry === 'generic') {
+      const repository = parsed.repository;
+      try {
+        const result = await this.getGenericManifest(parsed.registryDomain, repository, tag, targetPlatform);
+        latestSha = result.sha;
+        lastUpdated = result.lastUpdated;
+        platform = result.platform;
+        indexDigest = result.indexDigest;
+        platformDigests = result.platformDigests;
+        metadata = result.metadata;
+        console.log(`[Check] Registry OK`, { host: parsed.registryDomain, image: repository, tag, sha: latestSha.substring(0, 12), platform });
+        ({ latestAvailableTag, latestAvailableUpdated } = await this.resolveLatestAvailableTag(container, tag, `${parsed.registryDomain}/${repository}`,
+          (selectTag) => this.getLatestVersionFromRegistry(parsed.registryDomain, repository, tag, selectTag)));
+      } catch (e) {
+        checkError = this.classifyCheckError(e);
+        console.error(`[Check] Registry error`, { host: parsed.registryDomain, image: repository, tag, error: e instanceof Error ? e.message : String(e) });
       }
-    } else if (parsed.registry === 'unsupported') {
-      errorMessage = 'check image and tag and try again';
-      console.warn(`[Check] Unsupported registry`, { imagePath: container.imagePath, registryDomain: parsed.registryDomain });
+    }
+
+    // A pinned digest is the baseline: note whether the tag still points at it, otherwise look up when the
+    // pinned image was built so the UI can report how far behind the tag it is
+    const pinnedDigest = container.digest || undefined;
+    let pinnedCreated: string | undefined = undefined;
+    let pinnedCurrent: boolean | undefined = undefined;
+    if (pinnedDigest && latestSha && !checkError) {
+      const tagDigests = [latestSha, indexDigest, ...Object.values(platformDigests || {})];
+      pinnedCurrent = tagDigests.some(digest => digest && this.compareShas(digest, pinnedDigest));
+      if (pinnedCurrent) {
+        pinnedCreated = lastUpdated;
+      } else {
+        const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+        try {
+          const pinned = await this.fetchDigestWithAuth(host, parsed.repository, pinnedDigest, targetPlatform);
+          pinnedCreated = pinned.lastUpdated;
+        } catch (e) {
+          // The check itself succeeded; only the "days behind" figure is lost
+          console.warn(`[Check] Pinned digest lookup failed`, { host, image: parsed.repository, digest: pinnedDigest, error: e instanceof Error ? e.message : String(e) });
+        }
       }
+      console.log(`[Check] Pinned digest`, { image: parsed.repository, tag, pinnedDigest: pinnedDigest.substring(0, 19), pinnedCurrent, pinnedCreated });
+    }
 
-      return {
-        image: parsed.fullPath,
+    return {
+      image: parsed.fullPath,
       tag,
+      targetPlatform,
       currentSha: '',
-        latestSha,
+      latestSha,
       hasUpdate: false,
-        lastChecked: now,
-        lastUpdated,
-      statusMessage: errorMessage,
-      error: Boolean(errorMessage),
+      lastChecked: now,
+      lastUpdated,
+      statusMessage: checkError?.message,
+      error: Boolean(checkError),
+      errorCode: checkError?.code,
+      errorDetail: checkError?.detail,
       platform,
+      indexDigest,
+      platformDigests,
+      pinnedDigest,
+      pinnedCreated,
+      pinnedCurrent,
       latestAvailableTag,
       latestAvailableUpdated,
+      metadata,
+      tagPattern,
+      versionScheme: container.versionScheme,
     };
   }
 
-  static async checkAllRegistries(containers: ContainerRegistry[]): Promise<RegistryCheckResult[]> {
-    const results: RegistryCheckResult[] = [];
-    
-    for (let i = 0; i < containers.length; i++) {
-      const container = containers[i];
-        const result = await this.checkRegistry(container);
-        results.push(result);
-      
-      // Add delay between images (except for the last one)
-      if (i < containers.length - 1) {
-        const parsed = this.parseImagePath(container.imagePath);
-        let delay = 200; // Default delay (reduced from 1000ms)
-        
-        if (parsed.registry === 'dockerhub') {
-          delay = this.getRegistryDelay('registry-1.docker.io');
-        } else if (parsed.registry === 'github') {
-          delay = this.getRegistryDelay('ghcr.io');
-        } else if (parsed.registry === 'lscr') {
-          delay = this.getRegistryDelay('lscr.io');
+  private static getCheckKey(container: ContainerRegistry): string {
+    return JSON.stringify([
+      container.imagePath,
+      container.tag || 'latest',
+      container.platform || '',
+      container.digest || '',
+      container.updatePolicy || '',
+      Boolean(container.includePrerelease),
+      container.tagPattern || '',
+      container.versionScheme || '',
+    ]);
+  }
+
+  // checkRegistry, reusing a result from the last few seconds or a check of the same image already in flight.
+  // Failed checks are not cached so they can be retried right away.
+  static async checkRegistryCached(container: ContainerRegistry): Promise<RegistryCheckResult> {
+    const key = this.getCheckKey(container);
+    const cached = this.checkResultCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      console.log(`[Check] Reusing recent result`, { imagePath: container.imagePath, tag: container.tag || 'latest', platform: container.platform });
+      return { ...cached.result };
+    }
+
+    let pending = this.inFlightChecks.get(key);
+    if (!pending) {
+      const host = this.getCheckHost(container);
+      if (host && !this.allowRegistryRequest(host)) {
+        return this.getRegistryUnavailableResult(container, host);
+      }
+      pending = this.checkRegistry(container).then(result => {
+        if (host) {
+          this.recordRegistryOutcome(host, result);
         }
-        
-        console.log(`[Check] Waiting ${delay}ms before next image check`);
-        await this.sleep(delay);
+        if (!result.error) {
+          this.checkResultCache.set(key, { result, expiresAt: Date.now() + this.CHECK_RESULT_TTL_MS });
+        }
+        return result;
+      }).finally(() => {
+        this.inFlightChecks.delete(key);
+      });
+      this.inFlightChecks.set(key, pending);
+    }
+    return { ...(await pending) };
+  }
+
+  // Result for an image skipped because its registry's breaker is open
+  private static getRegistryUnavailableResult(container: ContainerRegistry, host: string): RegistryCheckResult {
+    const breaker = this.circuitBreakers.get(host);
+    console.log(`[Check] Skipping ${container.imagePath}:${container.tag || 'latest'}, ${host} is unavailable`, { state: breaker?.state, retryAt: breaker?.retryAt });
+    return {
+      image: this.parseImagePath(container.imagePath).fullPath,
+      tag: container.tag || 'latest',
+      targetPlatform: container.platform || undefined,
+      currentSha: '',
+      latestSha: '',
+      hasUpdate: false,
+      lastChecked: new Date().toISOString(),
+      statusMessage: CHECK_ERROR_LABELS.registry_unavailable,
+      error: true,
+      errorCode: 'registry_unavailable',
+      errorDetail: `${host} failed ${breaker?.consecutiveFailures || 0} checks in a row${breaker?.retryAt ? `; checking again after ${breaker.retryAt}` : ''}${breaker?.lastError ? ` (last error: ${breaker.lastError})` : ''}`,
+    };
+  }
+
+  // Registry host an image is checked against, used to pool and space checks per registry
+  private static getCheckHost(container: ContainerRegistry): string {
+    try {
+      const parsed = this.parseImagePath(container.imagePath);
+      return parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    } catch {
+      return ''; // Invalid references fail without contacting a registry
+    }
+  }
+
+  // Runs checks as a work queue: at most CHECK_CONCURRENCY checks overall, each registry host with its own
+  // concurrency pool and a minimum spacing (REGISTRY_DELAYS) between check starts, so a slow Docker Hub queue
+  // does not hold up GHCR or a local registry. Each unique image is checked once and its result fanned out to every
+  // container referencing it. Results come back in the order of the containers.
+  // With deferDockerHubOnLowBudget (scheduled runs), Docker Hub images are skipped once the pull budget drops below
+  // the threshold and come first in the next run; their previous state is kept instead of recording errors.
+  // Once options.signal is aborted no further checks start; checks already running finish and only the images that
+  // were checked are returned.
+  // Images on a registry whose circuit breaker is open are not contacted; they come back as registry_unavailable errors.
+  static async checkAllRegistries(containers: ContainerRegistry[], options: CheckRunOptions = {}): Promise<RegistryCheckResult[]> {
+    const imageKey = (c: ContainerRegistry) => `${c.imagePath}:${c.tag || 'latest'}@${c.platform || ''}`;
+    const deferred = new Set<string>();
+    let budgetRefresh: Promise<void> | null = null;
+
+    if (options.deferDockerHubOnLowBudget) {
+      containers = [...containers].sort((a, b) => Number(this.deferredImages.has(imageKey(b))) - Number(this.deferredImages.has(imageKey(a))));
+    }
+
+    options.onRunStart?.(containers.length);
+    const results: RegistryCheckResult[] = new Array(containers.length);
+    const runLimited = this.createLimiter(this.getCheckConcurrency());
+
+    // Store a result for a container and every duplicate of it
+    const store = (index: number, result: RegistryCheckResult) => {
+      for (const target of [index, ...(duplicates.get(index) || [])]) {
+        results[target] = target === index ? result : { ...result };
+        options.onCheckComplete?.(containers[target], results[target]);
+      }
+    };
+
+    const checkOne = async (index: number): Promise<void> => {
+      const container = containers[index];
+      if (options.signal?.aborted) {
+        return;
+      }
+
+      if (options.deferDockerHubOnLowBudget && this.isDockerHubImage(container) && this.isDockerHubBudgetLow()) {
+        // Re-read the budget once per run before deferring; the window may have reset
+        budgetRefresh = budgetRefresh || this.refreshDockerHubRateLimit();
+        await budgetRefresh;
+        if (this.isDockerHubBudgetLow()) {
+          console.warn(`[Check] Docker Hub pull budget low (${this.dockerHubRateLimit?.remaining} remaining), deferring ${container.imagePath}:${container.tag || 'latest'}`);
+          deferred.add(imageKey(container));
+          store(index, {
+            image: this.parseImagePath(container.imagePath).fullPath,
+            tag: container.tag || 'latest',
+            targetPlatform: container.platform || undefined,
+            currentSha: '',
+            latestSha: '',
+            hasUpdate: false,
+            lastChecked: new Date().toISOString(),
+            deferred: true,
+          });
+          return;
+        }
+      }
+
+      const result = await runLimited(async () => {
+        if (options.signal?.aborted) {
+          return null;
+        }
+        options.onCheckStart?.(container);
+        return this.checkRegistryCached(container);
+      });
+      if (result) {
+        store(index, result);
       }
+    };
+
+    // Containers with the same check key share the first one's result
+    const firstByKey = new Map<string, number>();
+    const duplicates = new Map<number, number[]>();
+    containers.forEach((container, index) => {
+      const key = this.getCheckKey(container);
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        duplicates.set(first, [...(duplicates.get(first) || []), index]);
+      }
+    });
+    const duplicateCount = containers.length - firstByKey.size;
+    if (duplicateCount > 0) {
+      console.log(`[Check] ${duplicateCount} duplicate image${duplicateCount === 1 ? '' : 's'} will reuse a shared result`);
+    }
+
+    // Group unique images by registry host, keeping the run order within each host
+    const queues = new Map<string, number[]>();
+    for (const index of firstByKey.values()) {
+      const host = this.getCheckHost(containers[index]);
+      queues.set(host, [...(queues.get(host) || []), index]);
+    }
+
+    await this.runHostQueues('Check', queues, checkOne, options.signal);
+
+    if (options.deferDockerHubOnLowBudget && !options.signal?.aborted) {
+      this.deferredImages = deferred;
     }
     
-    return results;
+    return options.signal?.aborted ? results.filter(result => result !== undefined) : results;
+  }
+
+  // Runs tasks as one work queue per registry host ('' for tasks that contact no registry): each host has its own
+  // concurrency pool and a minimum spacing (REGISTRY_DELAYS) between task starts, so a slow Docker Hub queue does
+  // not hold up GHCR or a local registry. Tasks on a host whose breaker is open are not spaced, since they do not
+  // contact it. Once the signal is aborted no further tasks start.
+  private static async runHostQueues(name: string, queues: Map<string, number[]>, task: (index: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    await Promise.all([...queues.entries()].map(([host, queue]) => {
+      const delay = host ? this.getRegistryDelay(host) : 0;
+      let nextStart = 0;
+      const worker = async () => {
+        for (let index = queue.shift(); index !== undefined && !signal?.aborted; index = queue.shift()) {
+          if (!host || !this.isCircuitOpen(host)) {
+            // Reserve the next start slot before waiting so parallel workers on this host stay spaced
+            const startAt = Math.max(Date.now(), nextStart);
+            nextStart = startAt + delay;
+            if (startAt > Date.now()) {
+              await this.sleep(startAt - Date.now());
+            }
+          }
+          await task(index);
+        }
+      };
+      const workers = Math.min(host ? this.getRegistryConcurrency(host) : queue.length, queue.length);
+      console.log(`[${name}] Queue for ${host || 'invalid references'}`, { tasks: queue.length, workers, spacingMs: delay });
+      return Promise.all(Array.from({ length: workers }, worker));
+    }));
+  }
+
+  // Minimal promise semaphore: at most `max` tasks run at once, the rest wait in FIFO order
+  private static createLimiter(max: number): <T>(task: () => Promise<T>) => Promise<T> {
+    let active = 0;
+    const waiting: Array<() => void> = [];
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+      if (active >= max) {
+        // The finishing task hands its slot straight to us, so the count stays put
+        await new Promise<void>(resolve => waiting.push(resolve));
+      } else {
+        active++;
+      }
+      try {
+        return await task();
+      } finally {
+        const next = waiting.shift();
+        if (next) {
+          next();
+        } else {
+          active--;
+        }
+      }
+    };
+  }
+
+  private static isDockerHubImage(container: ContainerRegistry): boolean {
+    try {
+      return this.parseImagePath(container.imagePath).registry === 'dockerhub';
+    } catch {
+      return false;
+    }
+  }
+
+  // GET /v2/<repository>/<path>, answering a 401 challenge. Any other status is returned for the caller to handle.
+  private static async getWithAuth(host: string, repository: string, path: string, accept: string, responseType: 'json' | 'arraybuffer' = 'json') {
+    const url = `${this.getRegistryBaseUrl(host)}/v2/${repository}/${path}`;
+    let response = await this.sendWithRetry(host, () => axios.get(url, { headers: { 'Accept': accept }, responseType, timeout: 10000, validateStatus: () => true }), { repository, path });
+    if (response.status === 401) {
+      const wwwAuth = response.headers['www-authenticate'] as string | undefined;
+      if (!wwwAuth) throw new RegistryCheckError('unsupported_registry', `Unauthorized and no WWW-Authenticate header from ${host}`);
+      const authorization = await this.getAuthorization(host, repository, wwwAuth);
+      response = await this.sendWithRetry(host, () => axios.get(url, { headers: { 'Accept': accept, Authorization: authorization }, responseType, timeout: 10000, validateStatus: () => true }), { repository, path });
+    }
+    this.recordRateLimit(host, response.headers);
+    return response;
+  }
+
+  // GET a manifest by tag or digest, authenticating if challenged. A manifest list / OCI index resolves to the entry
+  // for the platform. Returns the image manifest and its config blob.
+  private static async fetchImageManifest(host: string, repository: string, reference: string, platform?: string): Promise<{ manifest: any; config: any }> {
+    const get = async (path: string, accept: string) => {
+      const response = await this.getWithAuth(host, repository, path, accept);
+      if (response.status !== 200) {
+        throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status} for ${repository}/${path}`);
+      }
+      return response.data;
+    };
+
+    let manifest = await get(`manifests/${reference}`, this.MANIFEST_ACCEPT);
+    if (Array.isArray(manifest?.manifests)) {
+      const entry = this.selectPlatformManifest(manifest.manifests, platform);
+      manifest = await get(`manifests/${entry.digest}`, 'application/vnd.docker.distribution.manifest.v2+json, application/vnd.oci.image.manifest.v1+json');
+    }
+    const configDigest = manifest?.config?.digest;
+    const config = configDigest ? await get(`blobs/${configDigest}`, 'application/octet-stream') : undefined;
+    return { manifest, config: config && typeof config === 'object' ? config : undefined };
+  }
+
+  // Layers of the cosign signature artifact for a digest (the "sha256-<hex>.sig" tag); empty when the digest is unsigned
+  private static async fetchCosignSignatures(host: string, repository: string, digest: string): Promise<CosignSignature[]> {
+    const signatureTag = `sha256-${this.normalizeSha(digest)}.sig`;
+    const response = await this.getWithAuth(host, repository, `manifests/${signatureTag}`, 'application/vnd.oci.image.manifest.v1+json, application/vnd.docker.distribution.manifest.v2+json');
+    if (response.status === 404) {
+      return [];
+    }
+    if (response.status !== 200) {
+      throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status} for ${repository}:${signatureTag}`);
+    }
+
+    const layers = (Array.isArray(response.data?.layers) ? response.data.layers : [])
+      .filter((layer: any) => typeof layer?.annotations?.[this.COSIGN_SIGNATURE_ANNOTATION] === 'string' && layer.digest)
+      .slice(0, this.MAX_SIGNATURE_LAYERS);
+    const signatures: CosignSignature[] = [];
+    for (const layer of layers) {
+      const blob = await this.getWithAuth(host, repository, `blobs/${layer.digest}`, 'application/octet-stream', 'arraybuffer');
+      if (blob.status !== 200) {
+        throw new RegistryCheckError(checkErrorCodeForStatus(blob.status), `Registry responded with status ${blob.status} for signature payload ${layer.digest}`);
+      }
+      signatures.push({ payload: Buffer.from(blob.data), signature: layer.annotations[this.COSIGN_SIGNATURE_ANNOTATION] });
+    }
+    return signatures;
+  }
+
+  private static referrerKind(artifactType: string): ReferrerKind {
+    const type = artifactType.toLowerCase();
+    if (/spdx|cyclonedx|syft|sbom/.test(type)) return 'sbom';
+    if (/slsa|provenance/.test(type)) return 'provenance';
+    if (/signature|sigstore|notary|cosign/.test(type)) return 'signature';
+    if (/in-toto|attestation|vex/.test(type)) return 'attestation';
+    return 'other';
+  }
+
+  // Artifacts whose subject is the digest, from the referrers API or, where that is not supported, the tag-schema index
+  private static async fetchReferrers(host: string, repository: string, digest: string): Promise<ImageReferrer[]> {
+    const accept = 'application/vnd.oci.image.index.v1+json';
+    let response = await this.getWithAuth(host, repository, `referrers/${digest}`, accept);
+    if (this.REFERRERS_UNSUPPORTED_STATUSES.includes(response.status)) {
+      response = await this.getWithAuth(host, repository, `manifests/sha256-${this.normalizeSha(digest)}`, accept);
+      if (response.status === 404) {
+        return [];
+      }
+    }
+    if (response.status !== 200) {
+      throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status} for referrers of ${repository}@${digest}`);
+    }
+
+    return (Array.isArray(response.data?.manifests) ? response.data.manifests : [])
+      .filter((entry: any) => typeof entry?.digest === 'string')
+      .slice(0, this.MAX_REFERRERS)
+      .map((entry: any) => {
+        const artifactType = String(entry.artifactType || entry.mediaType || 'unknown');
+        return {
+          digest: entry.digest,
+          artifactType,
+          kind: this.referrerKind(artifactType),
+          subject: digest,
+          size: Number(entry.size) || undefined,
+          created: entry.annotations?.['org.opencontainers.image.created'] || undefined,
+        };
+      });
+  }
+
+  // Artifacts attached to any of the candidate digests, without duplicates
+  private static async collectReferrers(host: string, repository: string, candidates: string[]): Promise<ImageReferrer[]> {
+    const artifacts: ImageReferrer[] = [];
+    for (const digest of candidates) {
+      for (const artifact of await this.fetchReferrers(host, repository, digest)) {
+        if (!artifacts.some(a => a.digest === artifact.digest)) {
+          artifacts.push(artifact);
+        }
+      }
+    }
+    return artifacts;
+  }
+
+  private static getArtifactTypes(artifacts: ImageReferrer[]): string[] {
+    return [...new Set(artifacts.map(artifact => artifact.artifactType))].sort();
+  }
+
+  // Artifacts attached to a state's latest digest (the index digest and the platform digest for multi-platform tags),
+  // reused for REFERRERS_TTL_MS per digest. The digest's recorded artifact types are refreshed with what was found.
+  static async getReferrers(state: ContainerState): Promise<ImageReferrers> {
+    const candidates = [...new Set([state.indexDigest, state.latestSha].filter((d): d is string => !!d).map(d => `sha256:${this.normalizeSha(d)}`))];
+    const cacheKey = `${state.image}@${candidates.join(',')}`;
+    const cached = this.referrersCache.get(cacheKey);
+    if (cached && Date.now() - Date.parse(cached.checkedAt) < this.REFERRERS_TTL_MS) {
+      return cached;
+    }
+
+    const parsed = this.parseImagePath(state.image);
+    const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    const artifacts = await this.collectReferrers(host, parsed.repository, candidates);
+    console.log(`[Referrers] Found ${artifacts.length} artifact(s)`, { image: state.image, tag: state.tag, kinds: [...new Set(artifacts.map(a => a.kind))] });
+
+    if (state.latestSha) {
+      try {
+        await ConfigService.saveDigestArtifactTypes(state.image, state.tag, state.targetPlatform, `sha256:${this.normalizeSha(state.latestSha)}`, this.getArtifactTypes(artifacts));
+      } catch (error) {
+        console.error('[Referrers] Failed to record artifact types:', error);
+      }
+    }
+
+    const referrers: ImageReferrers = { digest: candidates[0], artifacts, checkedAt: new Date().toISOString() };
+    this.referrersCache.set(cacheKey, referrers);
+    for (const key of this.referrersCache.keys()) {
+      if (this.referrersCache.size <= this.MAX_CACHED_REFERRERS) break;
+      this.referrersCache.delete(key);
+    }
+    return referrers;
+  }
+
+  // Referrer lookups for the digests checks recorded whose artifact types were never looked up, i.e. new digests
+  private static async planReferrerLookups(results: RegistryCheckResult[]): Promise<ReferrerLookup[]> {
+    const lookups: ReferrerLookup[] = [];
+    for (const result of results) {
+      if (result.error || result.deferred || !result.latestSha) continue;
+      const digest = `sha256:${this.normalizeSha(result.latestSha)}`;
+      if (await ConfigService.getDigestArtifactTypes(result.image, result.tag, result.targetPlatform, digest)) continue;
+
+      const parsed = this.parseImagePath(result.image);
+      const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+      const candidates = [...new Set([result.indexDigest, result.latestSha].filter((d): d is string => !!d).map(d => `sha256:${this.normalizeSha(d)}`))];
+      lookups.push({ host, repository: parsed.repository, result, digest, candidates });
+    }
+    return lookups;
+  }
+
+  // Record the artifact types attached to new digests. Lookups run like signature lookups, through the per-host
+  // queues and CHECK_CONCURRENCY; a skipped or failed lookup records nothing, so the next check tries again.
+  private static async lookupReferrers(lookups: ReferrerLookup[], options: StateUpdateOptions): Promise<void> {
+    if (lookups.length === 0) {
+      return;
+    }
+    const runLimited = this.createLimiter(this.getCheckConcurrency());
+    const queues = new Map<string, number[]>();
+    lookups.forEach((lookup, index) => queues.set(lookup.host, [...(queues.get(lookup.host) || []), index]));
+
+    await this.runHostQueues('Referrers', queues, async (index) => {
+      const { host, repository, result, digest, candidates } = lookups[index];
+      if (this.isCircuitOpen(host)) {
+        return;
+      }
+      if (options.deferDockerHubOnLowBudget && host === 'registry-1.docker.io' && this.isDockerHubBudgetLow()) {
+        console.warn(`[Referrers] Docker Hub pull budget low, deferring the artifact lookup of ${result.image}:${result.tag}`);
+        return;
+      }
+      await runLimited(async () => {
+        if (options.signal?.aborted) {
+          return;
+        }
+        try {
+          const artifactTypes = this.getArtifactTypes(await this.collectReferrers(host, repository, candidates));
+          await ConfigService.saveDigestArtifactTypes(result.image, result.tag, result.targetPlatform, digest, artifactTypes);
+          console.log(`[Referrers] Recorded artifact types`, { image: result.image, tag: result.tag, digest: digest.substring(0, 19), artifactTypes });
+        } catch (error) {
+          console.warn(`[Referrers] Artifact lookup failed`, { image: result.image, tag: result.tag, error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+    }, options.signal);
+  }
+
+  // Content of one layer (by default the first) of an artifact attached to a state's latest digest, e.g. an SPDX
+  // document. null when the artifact has no such layer.
+  static async downloadReferrer(state: ContainerState, artifact: ImageReferrer, layerIndex: number = 0): Promise<{ data: Buffer; mediaType: string } | null> {
+    const parsed = this.parseImagePath(state.image);
+    const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    const response = await this.getWithAuth(host, parsed.repository, `manifests/${artifact.digest}`, `${this.MANIFEST_ACCEPT}, application/vnd.oci.artifact.manifest.v1+json`);
+    if (response.status !== 200) {
+      throw new RegistryCheckError(checkErrorCodeForStatus(response.status), `Registry responded with status ${response.status} for artifact ${artifact.digest}`);
+    }
+
+    // Artifact manifests from before OCI 1.1 list their content under "blobs"
+    const layers = Array.isArray(response.data?.layers) ? response.data.layers : Array.isArray(response.data?.blobs) ? response.data.blobs : [];
+    const layer = layers[layerIndex];
+    if (!layer?.digest) {
+      return null;
+    }
+    console.log(`[Referrers] Downloading artifact layer`, { image: state.image, artifact: artifact.digest.substring(0, 19), layer: layer.digest.substring(0, 19), size: layer.size });
+    const blob = await this.getWithAuth(host, parsed.repository, `blobs/${layer.digest}`, layer.mediaType || 'application/octet-stream', 'arraybuffer');
+    if (blob.status !== 200) {
+      throw new RegistryCheckError(checkErrorCodeForStatus(blob.status), `Registry responded with status ${blob.status} for blob ${layer.digest}`);
+    }
+    return { data: Buffer.from(blob.data), mediaType: layer.mediaType || 'application/octet-stream' };
+  }
+
+  // Layers and config labels that differ between the monitored and the latest digest of a state
+  static async compareImageDigests(state: ContainerState): Promise<ImageDiff> {
+    const fromDigest = `sha256:${this.normalizeSha(state.currentSha)}`;
+    const toDigest = `sha256:${this.normalizeSha(state.latestSha || '')}`;
+    const platform = state.targetPlatform || state.platform || undefined;
+    const cacheKey = `${state.image}@${fromDigest}..${toDigest}@${platform || ''}`;
+    const cached = this.imageDiffCache.get(cacheKey);
+    if (cached) {
+      return { ...cached, tag: state.tag };
+    }
+
+    const parsed = this.parseImagePath(state.image);
+    const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    console.log(`[Diff] Comparing digests`, { host, repository: parsed.repository, fromDigest: fromDigest.substring(0, 19), toDigest: toDigest.substring(0, 19), platform });
+    const [from, to] = await Promise.all([
+      this.fetchImageManifest(host, parsed.repository, fromDigest, platform),
+      this.fetchImageManifest(host, parsed.repository, toDigest, platform),
+    ]);
+
+    const toLayers = (manifest: any): ImageLayer[] => (Array.isArray(manifest?.layers) ? manifest.layers : []).map((layer: any) => ({
+      digest: String(layer?.digest || ''),
+      size: Number(layer?.size) || 0,
+      mediaType: layer?.mediaType || undefined,
+    }));
+    const fromLayers = toLayers(from.manifest);
+    const newLayers = toLayers(to.manifest);
+    const fromDigests = new Set(fromLayers.map(layer => layer.digest));
+    const newDigests = new Set(newLayers.map(layer => layer.digest));
+    const total = (layers: ImageLayer[]) => layers.reduce((sum, layer) => sum + layer.size, 0);
+
+    const fromLabels: Record<string, string> = from.config?.config?.Labels || {};
+    const toLabels: Record<string, string> = to.config?.config?.Labels || {};
+    const labelChanges = [...new Set([...Object.keys(fromLabels), ...Object.keys(toLabels)])]
+      .filter(key => fromLabels[key] !== toLabels[key])
+      .sort()
+      .map(key => ({ key, from: fromLabels[key], to: toLabels[key] }));
+
+    const diff: ImageDiff = {
+      image: state.image,
+      tag: state.tag,
+      platform: to.config?.architecture ? formatPlatform(normalizePlatform(to.config)) : platform,
+      fromDigest,
+      toDigest,
+      added: newLayers.filter(layer => !fromDigests.has(layer.digest)),
+      removed: fromLayers.filter(layer => !newDigests.has(layer.digest)),
+      unchanged: newLayers.filter(layer => fromDigests.has(layer.digest)),
+      fromSize: total(fromLayers),
+      toSize: total(newLayers),
+      sizeDelta: total(newLayers) - total(fromLayers),
+      labelChanges,
+    };
+
+    this.imageDiffCache.set(cacheKey, diff);
+    for (const key of this.imageDiffCache.keys()) {
+      if (this.imageDiffCache.size <= this.MAX_CACHED_DIFFS) break;
+      this.imageDiffCache.delete(key);
+    }
+    return diff;
+  }
+
+  // Whole days between the pinned image's build and the tag's current build, for digest-pinned containers that are behind
+  static getPinnedDaysBehind(state: ContainerState): number | null {
+    if (!state.pinnedDigest || !state.pinnedCreated || !state.lastUpdated) {
+      return null;
+    }
+    const diff = new Date(state.lastUpdated).getTime() - new Date(state.pinnedCreated).getTime();
+    return isNaN(diff) ? null : Math.max(0, Math.floor(diff / (1000 * 60 * 60 * 24)));
+  }
+
+  // Release notes a state's pending update already has, or the lookup it needs: the newer tag's release, else the
+  // release of the version the latest image is labelled with. Notes are reused while that version is unchanged.
+  private static planReleaseNotes(state: ContainerState, previous: ContainerState | undefined, scheme: VersionScheme): { releaseNotes?: ReleaseNotes; lookup?: ReleaseNotesLookup } {
+    const source = state.latestMetadata?.source;
+    let version: string | undefined = undefined;
+    if (state.hasNewerTag && state.latestAvailableTag) {
+      // latestAvailableTag may list several tags (e.g. "1.2.2, latest")
+      const tags = state.latestAvailableTag.split(',').map(t => t.trim());
+      version = VersionService.sortDescending(tags, scheme)[0] || tags[0];
+    } else if (state.hasUpdate) {
+      version = state.latestMetadata?.version;
+    }
+    if (!source || !version) {
+      return {};
+    }
+    if (previous?.releaseNotes?.version === version) {
+      return { releaseNotes: previous.releaseNotes };
+    }
+    return { lookup: { source, version } };
+  }
+
+  // Run release note lookups through one queue for the GitHub API host, so they overlap like registry checks instead
+  // of adding up. A failed lookup only loses the notes.
+  private static async lookupReleaseNotes(lookups: Array<{ state: ContainerState; lookup: ReleaseNotesLookup }>, signal?: AbortSignal): Promise<void> {
+    if (lookups.length === 0) {
+      return;
+    }
+    const host = ReleaseNotesService.getGitHubApiHost();
+    await this.runHostQueues('ReleaseNotes', new Map([[host, lookups.map((_, index) => index)]]), async (index) => {
+      const { state, lookup } = lookups[index];
+      try {
+        state.releaseNotes = (await ReleaseNotesService.findRelease(lookup.source, lookup.version)) || undefined;
+      } catch (error) {
+        console.warn(`[Check] Release notes lookup failed`, { image: state.image, version: lookup.version, error: error instanceof Error ? error.message : String(error) });
+      }
+    }, signal);
+  }
+
+  // Cosign signature a state's latest digest already has, or the lookup it needs. Only pending updates are verified,
+  // on the index digest first for multi-platform tags. A result is kept while the digest and key are unchanged; an
+  // unsigned one is looked up again after UNSIGNED_SIGNATURE_RECHECK_MS, since signatures are often pushed after
+  // the image.
+  private static planSignature(state: ContainerState, previous: ContainerState | undefined, keyring: SigningKeyring | undefined): { signature?: ImageSignature; lookup?: SignatureLookup } {
+    if (!keyring || !state.hasUpdate || !state.latestSha) {
+      return {};
+    }
+    const parsed = this.parseImagePath(state.image);
+    const keys = SignatureService.getKeysFor(keyring, state, parsed.registryDomain);
+    if (!keys) {
+      return {};
+    }
+
+    const candidates = [...new Set([state.indexDigest, state.latestSha].filter((d): d is string => !!d).map(d => `sha256:${this.normalizeSha(d)}`))];
+    const known = previous?.signature && candidates.includes(previous.signature.digest) && previous.signature.keyFingerprint === keys.fingerprint
+      ? previous.signature
+      : undefined;
+    const stale = known?.status === 'unsigned' && Date.now() - Date.parse(known.checkedAt) >= this.UNSIGNED_SIGNATURE_RECHECK_MS;
+    if (known && !stale) {
+      return { signature: known };
+    }
+    const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    return { signature: known, lookup: { host, repository: parsed.repository, candidates, keys } };
+  }
+
+  // Fetch and verify the cosign signatures of a lookup's digests; undefined when the lookup fails, which says nothing
+  // about the signature
+  private static async lookupSignature(state: ContainerState, lookup: SignatureLookup): Promise<ImageSignature | undefined> {
+    const { host, repository, candidates, keys } = lookup;
+    try {
+      let rejected: ImageSignature | undefined = undefined;
+      for (const digest of candidates) {
+        const signatures = await this.fetchCosignSignatures(host, repository, digest);
+        if (signatures.length === 0) {
+          continue;
+        }
+        const outcome = SignatureService.verify(digest, signatures, keys);
+        const signature: ImageSignature = { ...outcome, digest, keySource: keys.source, keyFingerprint: keys.fingerprint, checkedAt: new Date().toISOString() };
+        if (outcome.status === 'signed') {
+          console.log(`[Signature] Verified`, { image: state.image, tag: state.tag, digest: digest.substring(0, 19), keySource: keys.source });
+          return signature;
+        }
+        rejected = rejected || signature;
+      }
+      if (rejected) {
+        console.warn(`[Signature] Invalid signature`, { image: state.image, tag: state.tag, digest: rejected.digest.substring(0, 19), detail: rejected.detail });
+        return rejected;
+      }
+      console.log(`[Signature] No signature found`, { image: state.image, tag: state.tag, digest: candidates[0].substring(0, 19) });
+      return { status: 'unsigned', digest: candidates[0], keySource: keys.source, keyFingerprint: keys.fingerprint, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      console.warn(`[Signature] Signature lookup failed`, { image: state.image, tag: state.tag, error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  }
+
+  // Run signature lookups like checks: through the per-host queues and CHECK_CONCURRENCY, skipping hosts whose
+  // breaker is open and, when deferring, Docker Hub while its pull budget is low. A skipped or failed lookup leaves
+  // the state with the signature it already had for the digest.
+  private static async lookupSignatures(lookups: Array<{ state: ContainerState; lookup: SignatureLookup }>, options: StateUpdateOptions): Promise<void> {
+    if (lookups.length === 0) {
+      return;
+    }
+    const runLimited = this.createLimiter(this.getCheckConcurrency());
+    const queues = new Map<string, number[]>();
+    lookups.forEach(({ lookup }, index) => queues.set(lookup.host, [...(queues.get(lookup.host) || []), index]));
+
+    await this.runHostQueues('Signature', queues, async (index) => {
+      const { state, lookup } = lookups[index];
+      if (this.isCircuitOpen(lookup.host)) {
+        return;
+      }
+      if (options.deferDockerHubOnLowBudget && lookup.host === 'registry-1.docker.io' && this.isDockerHubBudgetLow()) {
+        console.warn(`[Signature] Docker Hub pull budget low, deferring the signature check of ${state.image}:${state.tag}`);
+        return;
+      }
+      const signature = await runLimited(() => options.signal?.aborted ? Promise.resolve(undefined) : this.lookupSignature(state, lookup));
+      state.signature = signature || state.signature;
+    }, options.signal);
+  }
+
+  // Scans already known for the monitored and latest digests. Missing or stale ones are queued in the background and
+  // saved into the container state when they finish, so a check never waits for a scan.
+  private static getVulnerabilities(state: ContainerState, previous: ContainerState | undefined): VulnerabilityComparison | undefined {
+    if (!ScannerService.isEnabled() || !state.hasUpdate || !state.currentSha || !state.latestSha || this.compareShas(state.currentSha, state.latestSha)) {
+      return undefined;
+    }
+    const parsed = this.parseImagePath(state.image);
+    const host = parsed.registry === 'dockerhub' ? 'registry-1.docker.io' : parsed.registryDomain;
+    const platform = state.targetPlatform || state.platform || undefined;
+    const known = [previous?.vulnerabilities?.current, previous?.vulnerabilities?.latest].filter((scan): scan is VulnerabilityScan => !!scan);
+
+    const getScan = (sha: string, side: 'current' | 'latest'): VulnerabilityScan | undefined => {
+      const digest = `sha256:${this.normalizeSha(sha)}`;
+      const cached = ScannerService.getScan(digest, platform) || known.find(scan => scan.digest === digest);
+      if (!cached || !ScannerService.isFresh(cached)) {
+        ScannerService.requestScan({
+          reference: `${parsed.registryDomain}/${parsed.repository}@${digest}`,
+          digest,
+          platform,
+          getCredentials: () => this.getRegistryCredentials(host),
+          onComplete: scan => ConfigService.saveVulnerabilityScan(state, side, scan),
+        });
+      }
+      return cached;
+    };
+
+    const current = getScan(state.currentSha, 'current');
+    const latest = getScan(state.latestSha, 'latest');
+    return current || latest ? { current, latest } : undefined;
   }
 
   static async updateContainerStates(
     checkResults: RegistryCheckResult[],
-    currentStates: ContainerState[]
+    currentStates: ContainerState[],
+    options: StateUpdateOptions = {}
   ): Promise<ContainerState[]> {
     const updatedStates: ContainerState[] = [...currentStates];
+    const signatureLookups: Array<{ state: ContainerState; lookup: SignatureLookup }> = [];
+    const releaseNotesLookups: Array<{ state: ContainerState; lookup: ReleaseNotesLookup }> = [];
+
+    // Public keys for signature checks; signatures are only looked up for images that have a key
+    let keyring: SigningKeyring | undefined = undefined;
+    try {
+      keyring = await SignatureService.loadKeyring();
+    } catch (error) {
+      console.error('[Check] Failed to load signing keys:', error);
+    }
     
     for (const result of checkResults) {
+      // Deferred images were not contacted; keep their state as it was
+      if (result.deferred) {
+        continue;
+      }
+
       const existingStateIndex = updatedStates.findIndex(
-        state => state.image === result.image && state.tag === result.tag
+        state => state.image === result.image && state.tag === result.tag && isSamePlatformTarget(state.targetPlatform, result.targetPlatform)
       );
       
       let hasUpdate: boolean = false;
@@ -1106,6 +2260,23 @@ export class RegistryService {
         updateAcknowledged = existingState?.updateAcknowledged || true;
         updateAcknowledgedAt = existingState?.updateAcknowledgedAt;
       }
+
+      // Digest-pinned containers compare the tag against the pinned digest rather than the first digest seen.
+      // A dismissed "behind" state holds until the tag moves again.
+      if (result.pinnedDigest && !result.error) {
+        const existingState = existingStateIndex >= 0 ? updatedStates[existingStateIndex] : undefined;
+        const tagMoved = !existingState?.latestSha || !this.compareShas(existingState.latestSha, result.latestSha);
+        const dismissed = existingState?.pinnedDigest === result.pinnedDigest && !existingState.hasUpdate && !tagMoved;
+        if (result.pinnedCurrent || dismissed) {
+          hasUpdate = false;
+          updateAcknowledged = true;
+          updateAcknowledgedAt = existingState?.updateAcknowledgedAt;
+        } else {
+          hasUpdate = true;
+          updateAcknowledged = false;
+          updateAcknowledgedAt = undefined;
+        }
+      }
       
       const isFirstTime = existingStateIndex < 0;
       const existingState = existingStateIndex >= 0 ? updatedStates[existingStateIndex] : undefined;
@@ -1113,26 +2284,26 @@ export class RegistryService {
       
       // A container is "new" ONLY if we're establishing the baseline SHA for the first time
       // Once we have a SHA, it's no longer "new" even if it was marked as such before
-      const isNewContainer = (isFirstTime || wasNeverChecked) && !result.error;
+      // Pinned containers already have their baseline, so they are never "new"
+      const isNewContainer = (isFirstTime || wasNeverChecked) && !result.error && !result.pinnedDigest;
       
       // Important: If we're successfully getting a SHA now, we're establishing the baseline,
       // so after this update isNew should be false on subsequent checks
       
       // Determine if a newer semver tag exists compared to the monitored tag
       let hasNewerTag: boolean = false;
-      const monitoredSemver = this.parseSemver(result.tag);
-      if (monitoredSemver && result.latestAvailableTag) {
+      // (resolution already filtered candidates by the container's tag pattern or update policy)
+      const scheme: VersionScheme = result.versionScheme || 'semver';
+      const monitoredVersion = VersionService.parseVersion(result.tag, scheme);
+      if (result.tagPattern) {
+        // Pattern-tracked tags (e.g. "16.4-bookworm") need not be semver; order them by the pattern's capture groups
+        hasNewerTag = Boolean(result.latestAvailableTag) && isNewerMatchingTag(result.tagPattern, result.latestAvailableTag!, result.tag);
+      } else if (monitoredVersion && result.latestAvailableTag) {
         // latestAvailableTag may contain multiple tags (e.g., "1.2.2, latest")
         const candidateTags = result.latestAvailableTag.split(',').map(s => s.trim());
-        let bestSemver: { major: number; minor: number; patch: number } | null = null;
-        for (const t of candidateTags) {
-          const parsed = this.parseSemver(t);
-          if (!parsed) continue;
-          if (!bestSemver || this.compareSemver(parsed, bestSemver) > 0) {
-            bestSemver = parsed;
-          }
-        }
-        if (bestSemver && this.compareSemver(bestSemver, monitoredSemver) > 0) {
+        const [bestTag] = VersionService.sortDescending(candidateTags, scheme);
+        const bestVersion = bestTag ? VersionService.parseVersion(bestTag, scheme) : null;
+        if (bestVersion && VersionService.compare(bestVersion, monitoredVersion) > 0) {
           hasNewerTag = true;
         }
       }
@@ -1148,13 +2319,36 @@ export class RegistryService {
       const isFirstSuccessfulCheck = (!previousSha || previousSha === '') && !result.error;
       const newCurrentSha = result.error
         ? previousSha
-        : isFirstSuccessfulCheck
-          ? result.latestSha
-          : previousSha;
+        : result.pinnedDigest
+          ? this.normalizeSha(result.pinnedDigest)
+          : isFirstSuccessfulCheck
+            ? result.latestSha
+            : previousSha;
+
+      // Which platforms in the manifest list were rebuilt since the previous check. The last non-empty
+      // diff is kept, so a pending update still explains which architectures it affects.
+      let changedPlatforms = existingState?.changedPlatforms;
+      if (!result.error) {
+        if (result.platformDigests && existingState?.platformDigests) {
+          const diff = diffPlatformDigests(existingState.platformDigests, result.platformDigests);
+          if (diff.length > 0) {
+            changedPlatforms = diff;
+            console.log(`[Check] Platforms changed`, { image: result.image, tag: result.tag, changedPlatforms });
+          }
+        } else if (!result.platformDigests) {
+          changedPlatforms = undefined;
+        }
+      }
+
+      // Config metadata is only read when the manifest is downloaded; keep what we had while the digest is unchanged
+      const latestMetadata = result.error
+        ? existingState?.latestMetadata
+        : result.metadata || (existingState?.latestSha && this.compareShas(existingState.latestSha, result.latestSha) ? existingState.latestMetadata : undefined);
 
       const newState: ContainerState = {
         image: result.image,
         tag: result.tag,
+        targetPlatform: result.targetPlatform,
         currentSha: newCurrentSha,
         lastChecked: result.lastChecked,
         hasUpdate: result.error ? (existingState?.hasUpdate || false) : hasUpdate,
@@ -1162,14 +2356,38 @@ export class RegistryService {
         latestSha: result.error ? existingState?.latestSha : result.latestSha,
         lastUpdated: result.error ? existingState?.lastUpdated : result.lastUpdated,
         isNew: result.error ? false : isNewContainer,
-        statusMessage: result.error ? 'check image and tag and try again' : undefined,
+        statusMessage: result.error ? (result.statusMessage || CHECK_ERROR_LABELS[result.errorCode || 'network']) : undefined,
         error: result.error ? true : false,
+        errorCode: result.error ? result.errorCode : undefined,
+        errorDetail: result.error ? result.errorDetail : undefined,
         platform: result.error ? existingState?.platform : result.platform,
+        indexDigest: result.error ? existingState?.indexDigest : result.indexDigest,
+        platformDigests: result.error ? existingState?.platformDigests : result.platformDigests,
+        changedPlatforms,
+        pinnedDigest: result.error ? existingState?.pinnedDigest : result.pinnedDigest,
+        pinnedCreated: result.error ? existingState?.pinnedCreated : result.pinnedCreated,
         latestAvailableTag: result.error ? existingState?.latestAvailableTag : result.latestAvailableTag,
         latestAvailableUpdated: result.error ? existingState?.latestAvailableUpdated : result.latestAvailableUpdated,
+        latestMetadata,
         updateAcknowledged: result.error ? (existingState?.updateAcknowledged || true) : updateAcknowledged,
         updateAcknowledgedAt: result.error ? existingState?.updateAcknowledgedAt : updateAcknowledgedAt,
       };
+      if (result.error) {
+        newState.releaseNotes = existingState?.releaseNotes;
+        newState.signature = existingState?.signature;
+      } else {
+        const { releaseNotes, lookup: releaseNotesLookup } = this.planReleaseNotes(newState, existingState, scheme);
+        newState.releaseNotes = releaseNotes;
+        if (releaseNotesLookup) {
+          releaseNotesLookups.push({ state: newState, lookup: releaseNotesLookup });
+        }
+        const { signature, lookup } = this.planSignature(newState, existingState, keyring);
+        newState.signature = signature;
+        if (lookup) {
+          signatureLookups.push({ state: newState, lookup });
+        }
+      }
+      newState.vulnerabilities = result.error ? existingState?.vulnerabilities : this.getVulnerabilities(newState, existingState);
       
       if (existingStateIndex >= 0) {
         updatedStates[existingStateIndex] = newState;
@@ -1177,6 +2395,30 @@ export class RegistryService {
         updatedStates.push(newState);
       }
     }
+
+    await Promise.all([
+      this.lookupReleaseNotes(releaseNotesLookups, options.signal),
+      this.lookupSignatures(signatureLookups, options),
+    ]);
+
+    // Keep the digest timeline, with every digest in its full "sha256:<hex>" form; a history write failing must not
+    // fail the check
+    try {
+      await ConfigService.recordDigestObservations(checkResults.map(result => ({
+        ...result,
+        latestSha: result.latestSha ? `sha256:${this.normalizeSha(result.latestSha)}` : '',
+        indexDigest: result.indexDigest ? `sha256:${this.normalizeSha(result.indexDigest)}` : undefined,
+      })));
+    } catch (error) {
+      console.error('[Check] Failed to record digest history:', error);
+    }
+
+    // Look up what is attached to digests seen for the first time
+    try {
+      await this.lookupReferrers(await this.planReferrerLookups(checkResults), options);
+    } catch (error) {
+      console.error('[Check] Failed to look up attached artifacts:', error);
+    }
     
     return updatedStates;
   }
@@ -0,0 +1,101 @@
+import axios from 'axios';
+import { ReleaseNotes } from '../types';
+import { CredentialService } from './credentialService';
+
+// GitHub release notes for detected updates, found from the image's org.opencontainers.image.source label.
+// Lookups (found or not) are cached so a pending update is not looked up again on every run.
+export class ReleaseNotesService {
+  private static readonly CACHE_TTL_MS = 60 * 60 * 1000;
+  private static readonly MAX_BODY_LENGTH = 4000;
+  private static cache: Map<string, { notes: ReleaseNotes | null; expiresAt: number }> = new Map();
+
+  // GITHUB_API_URL points lookups at GitHub Enterprise or a local stand-in
+  static getGitHubApiUrl(): string {
+    return (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+  }
+
+  static getGitHubApiHost(): string {
+    try {
+      return new URL(this.getGitHubApiUrl()).host;
+    } catch {
+      return this.getGitHubApiUrl();
+    }
+  }
+
+  // "owner/repo" from a source URL such as https://github.com/owner/repo or git@github.com:owner/repo.git
+  static parseGitHubRepository(source: string): { owner: string; repo: string } | null {
+    const match = /github\.com[/:]([^/\s]+)\/([^/#?\s]+?)(?:\.git)?(?:[/#?]|$)/i.exec(source);
+    return match ? { owner: match[1], repo: match[2] } : null;
+  }
+
+  // GITHUB_TOKEN, else the token saved for ghcr.io, which is only sent to api.github.com and never to another
+  // GITHUB_API_URL; anonymous requests are limited to 60 an hour
+  static async getToken(): Promise<string | undefined> {
+    if (process.env.GITHUB_TOKEN) {
+      return process.env.GITHUB_TOKEN;
+    }
+    if (this.getGitHubApiHost() !== 'api.github.com') {
+      return undefined;
+    }
+    try {
+      return (await CredentialService.getCredentialForHost('ghcr.io'))?.password;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Release for `version` in the source's GitHub repository, tried as "1.2.3" and "v1.2.3"; null when there is none
+  static async findRelease(source: string, version: string): Promise<ReleaseNotes | null> {
+    const repository = this.parseGitHubRepository(source);
+    if (!repository) {
+      return null;
+    }
+
+    const cacheKey = `${repository.owner}/${repository.repo}@${version}`.toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.notes;
+    }
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'registry-radar',
+    };
+    const token = await this.getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const bare = version.replace(/^v/i, '');
+    const candidates = [...new Set([version, bare, `v${bare}`])];
+    for (const tag of candidates) {
+      const url = `${this.getGitHubApiUrl()}/repos/${repository.owner}/${repository.repo}/releases/tags/${encodeURIComponent(tag)}`;
+      const response = await axios.get(url, { headers, timeout: 5000, validateStatus: () => true });
+      if (response.status === 404) {
+        continue;
+      }
+      if (response.status !== 200) {
+        // Rate limited or unavailable: try again on a later run rather than caching the miss
+        console.warn(`[ReleaseNotes] GitHub API returned status ${response.status}`, { repository: `${repository.owner}/${repository.repo}`, tag });
+        return null;
+      }
+
+      const body = typeof response.data?.body === 'string' ? response.data.body.trim() : '';
+      const notes: ReleaseNotes = {
+        version,
+        tag: response.data?.tag_name || tag,
+        name: response.data?.name || undefined,
+        url: response.data?.html_url || `https://github.com/${repository.owner}/${repository.repo}/releases/tag/${encodeURIComponent(tag)}`,
+        body: body ? (body.length > this.MAX_BODY_LENGTH ? `${body.substring(0, this.MAX_BODY_LENGTH)}…` : body) : undefined,
+        publishedAt: response.data?.published_at || undefined,
+      };
+      console.log(`[ReleaseNotes] Found release ${notes.tag}`, { repository: `${repository.owner}/${repository.repo}`, version });
+      this.cache.set(cacheKey, { notes, expiresAt: Date.now() + this.CACHE_TTL_MS });
+      return notes;
+    }
+
+    console.log(`[ReleaseNotes] No release for ${version}`, { repository: `${repository.owner}/${repository.repo}` });
+    this.cache.set(cacheKey, { notes: null, expiresAt: Date.now() + this.CACHE_TTL_MS });
+    return null;
+  }
+}
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import { execFile } from 'child_process';
+import { VulnerabilityScan } from '../types';
+import { VulnerabilityCounts, emptyVulnerabilityCounts, parseSeverity } from '../../shared/vulnerabilities';
+
+type ScannerType = VulnerabilityScan['scanner'];
+type RegistryCredentials = { username: string; password: string } | null;
+
+export interface ScanRequest {
+  reference: string; // "registry/repository@digest"
+  digest: string;
+  platform?: string;
+  getCredentials: () => Promise<RegistryCredentials>;
+  onComplete: (scan: VulnerabilityScan) => Promise<void>;
+}
+
+// Optional vulnerability scanning of image digests, configured with SCANNER_URL:
+// - trivy: runs the trivy CLI in client/server mode against a Trivy server (`trivy image --server SCANNER_URL`)
+// - http: POSTs {image, digest, platform} to SCANNER_URL and reads a Trivy JSON report or plain severity counts
+// Scans run in the background, SCANNER_CONCURRENCY (default 1) at a time, so checks never wait for them.
+export class ScannerService {
+  private static readonly MAX_REPORT_BYTES = 64 * 1024 * 1024;
+
+  // Latest scan per digest and platform, and the scans queued or running
+  private static results: Map<string, VulnerabilityScan> = new Map();
+  private static queued: Map<string, ScanRequest> = new Map();
+  private static running: Set<string> = new Set();
+
+  static getScannerUrl(): string | undefined {
+    return process.env.SCANNER_URL?.trim().replace(/\/+$/, '') || undefined;
+  }
+
+  static getScannerType(): ScannerType {
+    return process.env.SCANNER_TYPE?.trim().toLowerCase() === 'http' ? 'http' : 'trivy';
+  }
+
+  static isEnabled(): boolean {
+    return !!this.getScannerUrl();
+  }
+
+  private static getTimeoutMs(): number {
+    const seconds = parseInt(process.env.SCANNER_TIMEOUT_SECONDS || '', 10);
+    return (!isNaN(seconds) && seconds > 0 ? seconds : 120) * 1000;
+  }
+
+  // Scans older than SCANNER_RESCAN_HOURS (default 24) are repeated, since new CVEs are published for old images
+  static isFresh(scan: VulnerabilityScan): boolean {
+    const hours = parseInt(process.env.SCANNER_RESCAN_HOURS || '', 10);
+    const maxAgeMs = (!isNaN(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+    return Date.now() - new Date(scan.scannedAt).getTime() < maxAgeMs;
+  }
+
+  // Severity counts from a Trivy JSON report (Results[].Vulnerabilities[].Severity), or from a plain
+  // {critical, high, medium, low, unknown} object; null when the response is neither
+  static parseReport(report: any): VulnerabilityCounts | null {
+    const counts = emptyVulnerabilityCounts();
+    if (Array.isArray(report?.Results)) {
+      for (const result of report.Results) {
+        for (const vulnerability of Array.isArray(result?.Vulnerabilities) ? result.Vulnerabilities : []) {
+          counts[parseSeverity(vulnerability?.Severity)]++;
+        }
+      }
+      return counts;
+    }
+
+    const source = report?.counts && typeof report.counts === 'object' ? report.counts : report;
+    if (!source || typeof source !== 'object' || !Object.keys(counts).some(key => typeof source[key] === 'number')) {
+      return null;
+    }
+    for (const severity of Object.keys(counts) as Array<keyof VulnerabilityCounts>) {
+      counts[severity] = Math.max(0, Math.floor(Number(source[severity]) || 0));
+    }
+    return counts;
+  }
+
+  private static runTrivy(reference: string, platform: string | undefined, credentials: RegistryCredentials): Promise<any> {
+    const args = ['image', '--server', this.getScannerUrl()!, '--format', 'json', '--quiet', '--scanners', 'vuln'];
+    if (platform) {
+      args.push('--platform', platform);
+    }
+    args.push(reference);
+
+    // The server token and registry credentials reach trivy through its environment, never the command line
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    if (process.env.SCANNER_TOKEN) {
+      env.TRIVY_TOKEN = process.env.SCANNER_TOKEN;
+    }
+    if (credentials) {
+      env.TRIVY_USERNAME = credentials.username;
+      env.TRIVY_PASSWORD = credentials.password;
+    }
+
+    return new Promise((resolve, reject) => {
+      execFile(process.env.TRIVY_PATH || 'trivy', args, { env, timeout: this.getTimeoutMs(), maxBuffer: this.MAX_REPORT_BYTES }, (error, stdout, stderr) => {
+        if (error) {
+          return reject(new Error(`trivy failed: ${(stderr || error.message).trim().split('\n').pop()}`));
+        }
+        try {
+          resolve(JSON.parse(stdout));
+        } catch {
+          reject(new Error('trivy did not return a JSON report'));
+        }
+      });
+    });
+  }
+
+  private static async postToScanner(reference: string, digest: string, platform: string | undefined): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Accept': 'application/json' };
+    if (process.env.SCANNER_TOKEN) {
+      headers['Authorization'] = `Bearer ${process.env.SCANNER_TOKEN}`;
+    }
+    const response = await axios.post(this.getScannerUrl()!, { image: reference, digest, platform }, {
+      headers,
+      timeout: this.getTimeoutMs(),
+      maxContentLength: this.MAX_REPORT_BYTES,
+      validateStatus: () => true,
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Scanner responded with status ${response.status}`);
+    }
+    return response.data;
+  }
+
+  // Scan "registry/repository@digest"; throws when the scanner fails or its answer cannot be read
+  static async scan(reference: string, digest: string, platform: string | undefined, credentials: RegistryCredentials): Promise<VulnerabilityScan> {
+    const scanner = this.getScannerType();
+    const startedAt = Date.now();
+    console.log(`[Scanner] Scanning`, { scanner, reference: `${reference.split('@')[0]}@${digest.substring(0, 19)}`, platform });
+    const report = scanner === 'trivy'
+      ? await this.runTrivy(reference, platform, credentials)
+      : await this.postToScanner(reference, digest, platform);
+    const counts = this.parseReport(report);
+    if (!counts) {
+      throw new Error('Scanner response has neither Trivy results nor severity counts');
+    }
+    console.log(`[Scanner] Scan complete`, { digest: digest.substring(0, 19), ...counts, durationMs: Date.now() - startedAt });
+    return { ...counts, digest, scanner, scannedAt: new Date().toISOString() };
+  }
+
+  private static getConcurrency(): number {
+    const concurrency = parseInt(process.env.SCANNER_CONCURRENCY || '', 10);
+    return !isNaN(concurrency) && concurrency > 0 ? concurrency : 1;
+  }
+
+  private static getKey(digest: string, platform: string | undefined): string {
+    return `${digest}@${platform || ''}`;
+  }
+
+  // Last scan of a digest since startup, fresh or not
+  static getScan(digest: string, platform: string | undefined): VulnerabilityScan | undefined {
+    return this.results.get(this.getKey(digest, platform));
+  }
+
+  // Queue a background scan of a digest; a digest already queued or being scanned is not queued twice.
+  // onComplete runs after a successful scan; a failed scan is logged and tried again on a later request.
+  static requestScan(request: ScanRequest): void {
+    const key = this.getKey(request.digest, request.platform);
+    if (this.queued.has(key) || this.running.has(key)) {
+      return;
+    }
+    this.queued.set(key, request);
+    this.drain();
+  }
+
+  private static drain(): void {
+    while (this.running.size < this.getConcurrency() && this.queued.size > 0) {
+      const [key, request] = this.queued.entries().next().value as [string, ScanRequest];
+      this.queued.delete(key);
+      this.running.add(key);
+      this.runScan(key, request).finally(() => {
+        this.running.delete(key);
+        this.drain();
+      });
+    }
+  }
+
+  private static async runScan(key: string, request: ScanRequest): Promise<void> {
+    try {
+      const scan = await this.scan(request.reference, request.digest, request.platform, await request.getCredentials());
+      this.results.set(key, scan);
+      await request.onComplete(scan);
+    } catch (error) {
+      console.warn(`[Scanner] Scan failed`, { digest: request.digest.substring(0, 19), error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
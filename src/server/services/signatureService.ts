@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { ContainerRegistry, ImageSignature, RegistrySigningKey } from '../types';
+import { ConfigService } from './configService';
+import { CredentialService } from './credentialService';
+import { DatabaseService } from './databaseService';
+
+// A layer of a cosign signature artifact: the simple-signing payload and its base64 signature annotation
+export interface CosignSignature {
+  payload: Buffer;
+  signature: string;
+}
+
+// Public keys that apply to an image, with the fingerprint recorded on its ImageSignature
+export interface ResolvedSigningKeys {
+  source: ImageSignature['keySource'];
+  keys: crypto.KeyObject[];
+  fingerprint: string;
+}
+
+// Container and registry keys, loaded once for a batch of state updates
+export interface SigningKeyring {
+  containers: ContainerRegistry[];
+  registryKeys: Map<string, string>; // Normalized host -> PEM
+}
+
+// Cosign public keys (per container or per registry host) and verification of key-based cosign signatures.
+// Keyless (Fulcio certificate) signatures are not supported and do not verify against a key.
+export class SignatureService {
+  private static readonly PEM_BLOCK = /-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g;
+
+  // Every PEM public key in the text; a field may hold several keys while a key is being rotated
+  private static parsePublicKeys(pem: string): crypto.KeyObject[] {
+    return (pem.match(this.PEM_BLOCK) || []).map(block => crypto.createPublicKey(block));
+  }
+
+  // Error message for a public key field that is not one or more PEM public keys, otherwise undefined
+  static validatePublicKey(pem: string): string | undefined {
+    try {
+      if (this.parsePublicKeys(pem).length === 0) {
+        return 'Public key must be in PEM format (-----BEGIN PUBLIC KEY-----)';
+      }
+      return undefined;
+    } catch (error) {
+      return `Invalid public key: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  static getFingerprint(keys: crypto.KeyObject[]): string {
+    const hash = crypto.createHash('sha256');
+    for (const key of keys) {
+      hash.update(key.export({ type: 'spki', format: 'der' }));
+    }
+    return hash.digest('hex');
+  }
+
+  private static toSigningKey(row: any): RegistrySigningKey {
+    let fingerprint = '';
+    try {
+      fingerprint = this.getFingerprint(this.parsePublicKeys(row.public_key));
+    } catch {
+      // Keys are validated before they are stored; an unreadable one is listed without a fingerprint
+    }
+    return {
+      id: row.id,
+      host: row.host,
+      publicKey: row.public_key,
+      fingerprint,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  static async listKeys(): Promise<RegistrySigningKey[]> {
+    const rows = await DatabaseService.getSigningKeys() as any[];
+    return rows.map(row => this.toSigningKey(row));
+  }
+
+  static async createKey(input: { host: string; publicKey: string }): Promise<RegistrySigningKey> {
+    const host = CredentialService.normalizeHost(input.host);
+    await DatabaseService.addSigningKey({ host, public_key: input.publicKey.trim() });
+    return this.toSigningKey(await DatabaseService.getSigningKeyByHost(host));
+  }
+
+  static async updateKey(id: number, input: { host: string; publicKey: string }): Promise<RegistrySigningKey | null> {
+    const existing = await DatabaseService.getSigningKeyById(id);
+    if (!existing) {
+      return null;
+    }
+    await DatabaseService.updateSigningKey(id, { host: CredentialService.normalizeHost(input.host), public_key: input.publicKey.trim() });
+    return this.toSigningKey(await DatabaseService.getSigningKeyById(id));
+  }
+
+  static async deleteKey(id: number): Promise<boolean> {
+    const existing = await DatabaseService.getSigningKeyById(id);
+    if (!existing) {
+      return false;
+    }
+    await DatabaseService.deleteSigningKey(id);
+    return true;
+  }
+
+  static async loadKeyring(): Promise<SigningKeyring> {
+    const [containers, rows] = await Promise.all([ConfigService.getContainers(), DatabaseService.getSigningKeys() as Promise<any[]>]);
+    return {
+      containers,
+      registryKeys: new Map(rows.map(row => [row.host, row.public_key])),
+    };
+  }
+
+  // The container's own key, else the key for its registry host; null when signatures are not checked for the image
+  static getKeysFor(keyring: SigningKeyring, state: { image: string; tag: string; targetPlatform?: string }, host: string): ResolvedSigningKeys | null {
+    const container = keyring.containers.find(c => ConfigService.matchesState(c, state));
+    const source: ImageSignature['keySource'] = container?.cosignPublicKey ? 'container' : 'registry';
+    const pem = container?.cosignPublicKey || keyring.registryKeys.get(CredentialService.normalizeHost(host));
+    if (!pem) {
+      return null;
+    }
+    try {
+      const keys = this.parsePublicKeys(pem);
+      return keys.length > 0 ? { source, keys, fingerprint: this.getFingerprint(keys) } : null;
+    } catch (error) {
+      console.warn(`[Signature] Unreadable public key`, { image: state.image, source, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  // Whether any signature verifies against one of the keys and its payload names the digest
+  static verify(digest: string, signatures: CosignSignature[], keys: ResolvedSigningKeys): { status: 'signed' | 'invalid'; detail?: string } {
+    let detail = 'No signature matches the configured public key';
+    for (const { payload, signature } of signatures) {
+      const signatureBytes = Buffer.from(signature, 'base64');
+      // Ed25519 keys sign the payload itself; ECDSA and RSA keys sign its SHA-256 hash
+      const verified = keys.keys.some(key => {
+        try {
+          return crypto.verify(key.asymmetricKeyType === 'ed25519' ? null : 'sha256', payload, key, signatureBytes);
+        } catch {
+          return false;
+        }
+      });
+      if (!verified) {
+        continue;
+      }
+
+      let signedDigest: unknown;
+      try {
+        signedDigest = JSON.parse(payload.toString('utf-8'))?.critical?.image?.['docker-manifest-digest'];
+      } catch {
+        signedDigest = undefined;
+      }
+      if (typeof signedDigest === 'string' && signedDigest.toLowerCase() === digest.toLowerCase()) {
+        return { status: 'signed' };
+      }
+      detail = `Signature is for a different digest (${typeof signedDigest === 'string' ? signedDigest.substring(0, 19) : 'none'})`;
+    }
+    return { status: 'invalid', detail };
+  }
+}
@@ -0,0 +1,172 @@
+import { UpdatePolicy, VersionScheme } from '../types';
+
+// A parsed version tag in any scheme: numeric release components plus optional prerelease identifiers
+export interface Version {
+  release: number[];                  // e.g. [1, 2, 3], [2024, 10, 1] or [2024, 10, 19, 1] for "20241019-1"
+  prerelease: Array<string | number>; // e.g. ["rc", 1] for "-rc.1"
+  raw: string;
+}
+
+export interface SemVer extends Version {
+  major: number;
+  minor: number;
+  patch: number;
+  build: string[];                    // Ignored for precedence
+}
+
+// SemVer 2.0.0 (https://semver.org) with an optional leading "v" as commonly used in image tags
+const SEMVER_REGEX = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+// Calendar versions: YYYY.MM[.DD|.MICRO] or YY.MM[.MICRO] (e.g. 2024.10.1, 24.04), optionally with a
+// prerelease suffix as used by Home Assistant and friends (2024.10.0b1, 24.10-rc1)
+const CALVER_REGEX = /^v?(\d{4}|\d{2})\.(\d{1,2})((?:\.\d+){0,2})(?:[-.]?((?:a|b|rc|alpha|beta|dev|pre)\.?\d*))?$/i;
+// Date stamps with an optional same-day sequence number: 20241019, 2024-10-19, 20241019-1, 2024.10.19.2
+const DATE_REGEX = /^v?(\d{4})[-.]?(\d{2})[-.]?(\d{2})(?:[-._](\d+))?$/;
+// Plain build numbers: 1234, r1234, build-1234
+const BUILD_REGEX = /^(?:v|r|build[-._]?)?(\d+)$/i;
+
+// "b1" -> ["b", 1], "rc.2" -> ["rc", 2]
+function parseIdentifiers(value: string): Array<string | number> {
+  return (value.match(/[a-zA-Z]+|\d+/g) || []).map(id => /^\d+$/.test(id) ? Number(id) : id.toLowerCase());
+}
+
+export class VersionService {
+  static parse(tag: string): SemVer | null {
+    const match = (tag || '').trim().match(SEMVER_REGEX);
+    if (!match) return null;
+    const major = Number(match[1]);
+    const minor = Number(match[2]);
+    const patch = Number(match[3]);
+    return {
+      major,
+      minor,
+      patch,
+      release: [major, minor, patch],
+      prerelease: match[4] ? match[4].split('.').map(id => /^\d+$/.test(id) ? Number(id) : id) : [],
+      build: match[5] ? match[5].split('.') : [],
+      raw: tag,
+    };
+  }
+
+  static parseCalVer(tag: string): Version | null {
+    const match = (tag || '').trim().match(CALVER_REGEX);
+    if (!match) return null;
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return null;
+    const rest = match[3] ? match[3].substring(1).split('.').map(Number) : [];
+    return {
+      release: [Number(match[1]), month, ...rest],
+      prerelease: match[4] ? parseIdentifiers(match[4]) : [],
+      raw: tag,
+    };
+  }
+
+  static parseDate(tag: string): Version | null {
+    const match = (tag || '').trim().match(DATE_REGEX);
+    if (!match) return null;
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 1970 || month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return {
+      release: match[4] !== undefined ? [year, month, day, Number(match[4])] : [year, month, day],
+      prerelease: [],
+      raw: tag,
+    };
+  }
+
+  static parseBuild(tag: string): Version | null {
+    const match = (tag || '').trim().match(BUILD_REGEX);
+    if (!match) return null;
+    return { release: [Number(match[1])], prerelease: [], raw: tag };
+  }
+
+  static parseVersion(tag: string, scheme: VersionScheme = 'semver'): Version | null {
+    switch (scheme) {
+      case 'calver':
+        return this.parseCalVer(tag);
+      case 'date':
+        return this.parseDate(tag);
+      case 'build':
+        return this.parseBuild(tag);
+      default:
+        return this.parse(tag);
+    }
+  }
+
+  // Release components compare numerically (missing ones count as 0, so 24.04 < 24.04.1), then
+  // prerelease precedence per SemVer 2.0 section 11: a prerelease sorts before its release
+  static compare(a: Version, b: Version): number {
+    for (let i = 0; i < Math.max(a.release.length, b.release.length); i++) {
+      const diff = (a.release[i] || 0) - (b.release[i] || 0);
+      if (diff !== 0) return diff;
+    }
+
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+      return b.prerelease.length - a.prerelease.length;
+    }
+
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+      const x = a.prerelease[i];
+      const y = b.prerelease[i];
+      if (x === undefined) return -1;
+      if (y === undefined) return 1;
+      if (x === y) continue;
+      if (typeof x === 'number' && typeof y === 'number') return x - y;
+      // Numeric identifiers have lower precedence than alphanumeric ones
+      if (typeof x === 'number') return -1;
+      if (typeof y === 'number') return 1;
+      return x < y ? -1 : 1;
+    }
+    return 0;
+  }
+
+  // Whether moving from current to candidate is allowed by the policy. Prereleases are only considered
+  // when opted in, or when the current tag is itself a prerelease of the same version (e.g. rc.1 -> rc.2).
+  // The policy compares the first two release components (major.minor, or year.month for calver).
+  static isAllowedUpdate(current: Version, candidate: Version, policy: UpdatePolicy = 'any', includePrerelease: boolean = false): boolean {
+    if (this.compare(candidate, current) <= 0) {
+      return false;
+    }
+
+    if (candidate.prerelease.length > 0 && !includePrerelease) {
+      const sameVersion = this.compare({ ...candidate, prerelease: [] }, { ...current, prerelease: [] }) === 0;
+      if (!(current.prerelease.length > 0 && sameVersion)) {
+        return false;
+      }
+    }
+
+    switch (policy) {
+      case 'patch':
+        return candidate.release[0] === current.release[0] && (candidate.release[1] || 0) === (current.release[1] || 0);
+      case 'minor':
+        return candidate.release[0] === current.release[0];
+      default:
+        return true;
+    }
+  }
+
+  // Highest tag the policy allows from the current tag; null when there is none.
+  // Update policies only apply to semver and calver; date stamps and build numbers always move forward.
+  static findLatestAllowed(tags: string[], currentTag: string, policy: UpdatePolicy = 'any', includePrerelease: boolean = false, scheme: VersionScheme = 'semver'): string | null {
+    const current = this.parseVersion(currentTag, scheme);
+    if (!current) return null;
+    const effectivePolicy = scheme === 'semver' || scheme === 'calver' ? policy : 'any';
+
+    let best: Version | null = null;
+    for (const tag of tags) {
+      const candidate = this.parseVersion(tag, scheme);
+      if (!candidate || !this.isAllowedUpdate(current, candidate, effectivePolicy, includePrerelease)) continue;
+      if (!best || this.compare(candidate, best) > 0) {
+        best = candidate;
+      }
+    }
+    return best ? best.raw : null;
+  }
+
+  // Version tags sorted newest first, for display
+  static sortDescending(tags: string[], scheme: VersionScheme = 'semver'): string[] {
+    return tags
+      .map(tag => ({ tag, version: this.parseVersion(tag, scheme) }))
+      .filter((entry): entry is { tag: string; version: Version } => entry.version !== null)
+      .sort((a, b) => this.compare(b.version, a.version))
+      .map(entry => entry.tag);
+  }
+}
@@ -1,13 +1,98 @@
+import { CheckErrorCode } from '../shared/checkErrors';
+import { VulnerabilityCounts } from '../shared/vulnerabilities';
+
+// Newer versions of a semver tag to report: same major.minor, same major, or any
+export type UpdatePolicy = 'patch' | 'minor' | 'any';
+
+// How version tags are read: semver (1.2.3), calendar (2024.10.1, 24.04), date stamps (20241019-1) or build numbers (1234)
+export type VersionScheme = 'semver' | 'calver' | 'date' | 'build';
+
+// What the image config blob says about an image: org.opencontainers.image.* labels and runtime settings
+export interface ImageMetadata {
+  version?: string; // org.opencontainers.image.version
+  revision?: string; // org.opencontainers.image.revision, usually a commit SHA
+  source?: string; // org.opencontainers.image.source, e.g. the repository URL
+  created?: string; // org.opencontainers.image.created, else the config's created time
+  title?: string; // org.opencontainers.image.title
+  architecture?: string; // e.g. "linux/arm64"
+  exposedPorts?: string[]; // e.g. ["80/tcp"]
+  entrypoint?: string[];
+  compressedSize?: number; // Sum of the layer sizes in bytes
+}
+
+// Cosign signature check of an image digest against the container's or registry's public keys
+export type SignatureStatus = 'signed' | 'unsigned' | 'invalid';
+
+export interface ImageSignature {
+  status: SignatureStatus;
+  digest: string; // Digest whose sha256-<digest>.sig artifact was looked up (the index digest for multi-platform tags)
+  keySource: 'container' | 'registry'; // Where the public key came from
+  keyFingerprint: string; // SHA-256 of the public key(s) checked, so a changed key is checked again
+  detail?: string; // Why a signature was rejected
+  checkedAt: string;
+}
+
+// What an artifact attached to an image is, from its artifact type
+export type ReferrerKind = 'sbom' | 'provenance' | 'signature' | 'attestation' | 'other';
+
+// An artifact (SBOM, provenance, signature, ...) that refers to an image digest
+export interface ImageReferrer {
+  digest: string; // Digest of the artifact's manifest
+  artifactType: string; // e.g. "application/spdx+json" or "application/vnd.in-toto+json"
+  kind: ReferrerKind;
+  subject: string; // Image digest the artifact is attached to
+  size?: number; // Size of the artifact manifest in bytes
+  created?: string; // org.opencontainers.image.created annotation
+}
+
+// Artifacts attached to the latest digest, found through the OCI referrers API or the "sha256-<digest>" tag fallback
+export interface ImageReferrers {
+  digest: string; // Latest digest the lookup was made for (the index digest for multi-platform tags)
+  artifacts: ImageReferrer[];
+  checkedAt: string;
+}
+
+// Scanner result for one digest; counts are kept per digest and rescanned once they are old
+export interface VulnerabilityScan extends VulnerabilityCounts {
+  digest: string;
+  scanner: 'trivy' | 'http';
+  scannedAt: string;
+}
+
+// Scans of a pending update's monitored (current) and latest digests
+export interface VulnerabilityComparison {
+  current?: VulnerabilityScan;
+  latest?: VulnerabilityScan;
+}
+
+// GitHub release matching an update's version, found from the image's source label
+export interface ReleaseNotes {
+  version: string; // Version the release was looked up for
+  tag: string; // Release tag name, e.g. "v2.8.1"
+  name?: string;
+  url: string;
+  body?: string; // Release notes (Markdown), truncated
+  publishedAt?: string;
+}
+
 export interface ContainerRegistry {
   name: string;
   imagePath: string; // Full image path like "andrewbusbee/planning-poker" or "nginx"
   tag?: string; // Optional, defaults to 'latest'
+  platform?: string; // Optional target platform like "linux/arm64/v8"; defaults to the registry's linux/amd64 (or first) entry
+  digest?: string; // Optional pinned digest ("sha256:..."); becomes the baseline while the tag keeps being polled
+  updatePolicy?: UpdatePolicy; // Which semver bumps count as a newer tag; defaults to 'any'
+  includePrerelease?: boolean; // Also offer prerelease versions (e.g. 2.0.0-rc.1) as newer tags
+  tagPattern?: string; // Optional regex or glob (e.g. "*-alpine") that newer tags must match; replaces semver resolution
+  versionScheme?: VersionScheme; // How newer version tags are found and ordered; defaults to 'semver'
+  cosignPublicKey?: string; // Optional PEM public key the latest digest's cosign signature must verify against; overrides the registry's key
   // registry and namespace are auto-detected from imagePath
 }
 
 export interface ContainerState {
   image: string;
   tag: string;
+  targetPlatform?: string; // Platform the monitored container asked for (part of the state key)
   currentSha: string;
   lastChecked: string;
   hasUpdate: boolean;
@@ -20,11 +105,23 @@ export interface ContainerState {
   statusMessage?: string;
   // Error flag for last check
   error?: boolean;
+  errorCode?: CheckErrorCode; // Why the last check failed
+  errorDetail?: string; // Underlying error message of the failed check
   // Platform information for multi-arch images
   platform?: string; // e.g., "linux/amd64"
+  indexDigest?: string; // Digest of the manifest list / OCI index
+  platformDigests?: Record<string, string>; // Digest per platform in the manifest list, e.g. { "linux/arm64": "..." }
+  changedPlatforms?: string[]; // Platforms whose digest changed at the last rebuild of the tag
+  // Digest-pinned containers (image:tag@sha256:...)
+  pinnedDigest?: string; // The pinned digest used as the baseline
+  pinnedCreated?: string; // When the pinned image was built, to report how far it is behind the tag
   // Latest available tag information
   latestAvailableTag?: string;
   latestAvailableUpdated?: string;
+  latestMetadata?: ImageMetadata; // Config metadata of the image at latestSha
+  releaseNotes?: ReleaseNotes; // GitHub release for the available update, when one was found
+  signature?: ImageSignature; // Cosign signature of the latest digest, when a public key applies
+  vulnerabilities?: VulnerabilityComparison; // Scanner counts for a pending update's digests, when a scanner is configured
   // User acknowledgment system for non-semver updates
   updateAcknowledged?: boolean; // Whether user has dismissed/acknowledged the current update
   updateAcknowledgedAt?: string; // When the update was acknowledged
@@ -49,6 +146,7 @@ export interface Notification {
 export interface RegistryCheckResult {
   image: string;
   tag: string;
+  targetPlatform?: string; // Platform requested by the container, if any
   currentSha: string;
   latestSha: string;
   hasUpdate: boolean;
@@ -58,11 +156,147 @@ export interface RegistryCheckResult {
   statusMessage?: string;
   // Error flag for this check result
   error?: boolean;
+  errorCode?: CheckErrorCode; // Why the check failed
+  errorDetail?: string; // Underlying error message, for troubleshooting
   // Platform information for multi-arch images
   platform?: string; // e.g., "linux/amd64"
+  indexDigest?: string; // Digest of the manifest list / OCI index
+  platformDigests?: Record<string, string>; // Digest per platform in the manifest list
+  pinnedDigest?: string; // Pinned digest of the container, if any
+  pinnedCreated?: string; // When the pinned image was built
+  pinnedCurrent?: boolean; // Whether the tag still points at the pinned digest
   // Latest available tag information
   latestAvailableTag?: string;
   latestAvailableUpdated?: string;
+  metadata?: ImageMetadata; // Config metadata of the image at latestSha, when the config blob was read
+  tagPattern?: string; // Pattern latestAvailableTag was resolved with, if any
+  versionScheme?: VersionScheme; // Scheme latestAvailableTag was resolved with (default semver)
+  deferred?: boolean; // Not checked this run (Docker Hub pull budget was low); the previous state is kept
+}
+
+export interface ImageLayer {
+  digest: string;
+  size: number; // Compressed size in bytes
+  mediaType?: string;
+}
+
+// What changed between the monitored digest and the latest digest of an image/tag/platform
+export interface ImageDiff {
+  image: string;
+  tag: string;
+  platform?: string; // Platform compared when the digests are manifest lists
+  fromDigest: string; // Monitored digest (currentSha)
+  toDigest: string; // Latest digest (latestSha)
+  added: ImageLayer[];
+  removed: ImageLayer[];
+  unchanged: ImageLayer[];
+  fromSize: number; // Total compressed layer size in bytes
+  toSize: number;
+  sizeDelta: number;
+  labelChanges: Array<{ key: string; from?: string; to?: string }>; // Config labels added, removed or changed
+}
+
+// A distinct digest observed for an image/tag/platform, with when checks saw it
+export interface DigestHistoryEntry {
+  digest: string;
+  indexDigest?: string; // Manifest list the digest was resolved from, for multi-platform tags
+  firstSeen: string;
+  lastSeen: string;
+  registryUpdated?: string; // The registry's last-updated time for the image, when it reports one
+  artifactTypes?: string[]; // Types of the SBOMs, provenance and other artifacts attached to the digest, once looked up
+}
+
+export interface DigestTimeline {
+  image: string;
+  tag: string;
+  targetPlatform?: string;
+  entries: DigestHistoryEntry[]; // Newest first
+}
+
+export type CheckJobStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+export type CheckRunTrigger = 'manual' | 'scheduled';
+
+// Outcome of one image in a check job
+export interface CheckJobResult {
+  name: string; // Container name
+  image: string;
+  tag: string;
+  platform?: string;
+  hasUpdate: boolean;
+  hasNewerTag?: boolean;
+  latestAvailableTag?: string;
+  error?: string; // Status message when the check failed
+  errorCode?: CheckErrorCode;
+  deferred?: boolean;
+}
+
+// A check of all monitored images, run on the server and followed over Server-Sent Events
+export interface CheckJob {
+  id: string;
+  trigger: CheckRunTrigger;
+  status: CheckJobStatus;
+  total: number; // Images in the run
+  completed: number; // Images checked so far (including deferred ones)
+  current: string[]; // Images being checked right now, e.g. "nginx:latest"
+  results: CheckJobResult[]; // In completion order
+  cancelRequested?: boolean; // Cancelled; checks already running are finishing
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+// A finished (or interrupted) check job as kept in the run history
+export interface CheckRun {
+  id: string; // The check job id
+  trigger: CheckRunTrigger;
+  status: CheckJobStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  imageCount: number;
+  updatesFound: number;
+  errors: number;
+  error?: string; // Why the run failed
+}
+
+export interface CheckRunDetail extends CheckRun {
+  results: CheckJobResult[];
+}
+
+// Stream events: a snapshot of the active job on connect, progress per image, and job start/finish
+export type CheckJobEvent =
+  | { type: 'snapshot'; job: CheckJob | null }
+  | { type: 'started' | 'cancelling' | 'finished'; job: CheckJob }
+  | { type: 'progress'; jobId: string; completed: number; total: number; current: string[]; result?: CheckJobResult };
+
+export interface DockerHubRateLimit {
+  limit: number; // Pulls allowed per window
+  remaining: number; // Pulls left in the current window
+  windowSeconds?: number; // e.g. 21600 for the 6-hour window
+  source?: string; // The IP or account the limit applies to (docker-ratelimit-source)
+  observedAt: string; // When the headers were last read
+}
+
+export interface RateLimitStatus {
+  dockerHub: DockerHubRateLimit | null; // null until a Docker Hub response carried ratelimit headers (unlimited accounts never do)
+  authenticated: boolean; // Whether Docker Hub credentials are configured
+  threshold: number; // Scheduled runs defer Docker Hub images when fewer pulls than this remain
+  deferred: number; // Docker Hub images deferred by the last scheduled run
+}
+
+// Per-registry circuit breaker: open after repeated registry failures, so images on that host are skipped until
+// the cooldown passes; half-open lets a single check through to probe whether the registry recovered
+export type CircuitBreakerState = 'closed' | 'open' | 'half_open';
+
+export interface RegistryCircuitBreaker {
+  host: string;
+  state: CircuitBreakerState;
+  consecutiveFailures: number;
+  threshold: number; // Consecutive failures that open the breaker
+  openedAt?: string;
+  retryAt?: string; // When an open breaker lets a probe check through
+  lastFailureAt?: string;
+  lastError?: string;
 }
 
 export interface AppriseChannel {
@@ -83,5 +317,26 @@ export interface NotificationConfig {
     sendIndividualReportsOnScheduledRun: boolean;
     sendReportsWhenUpdatesFound: boolean;
     sendReportsOnErrors: boolean;
+    errorCodes?: CheckErrorCode[]; // Check errors that notify; empty or missing means every code
+    unsignedUpdates?: 'flag' | 'suppress'; // Updates with a missing or invalid signature: warn in the notification (default) or skip it
   };
-}
\ No newline at end of file
+}
+
+export interface RegistryCredential {
+  id: number;
+  host: string; // Registry host, e.g. "ghcr.io" or "harbor.example.com:8443" (Docker Hub is "docker.io")
+  username: string;
+  hasSecret: boolean; // Secrets are never returned by the API
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Cosign public key for every image on a registry host
+export interface RegistrySigningKey {
+  id: number;
+  host: string; // Registry host, normalized like credentials (Docker Hub is "docker.io")
+  publicKey: string; // PEM
+  fingerprint: string; // SHA-256 of the key
+  createdAt?: string;
+  updatedAt?: string;
+}
@@ -0,0 +1,57 @@
+// Why a registry check failed. The code drives the user-facing message and lets error notifications be filtered;
+// the raw detail (the underlying error message) is kept alongside it for troubleshooting.
+
+export type CheckErrorCode =
+  | 'not_found'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'network'
+  | 'timeout'
+  | 'unsupported_registry'
+  | 'parse_error'
+  | 'registry_unavailable';
+
+export const CHECK_ERROR_CODES: CheckErrorCode[] = [
+  'not_found',
+  'unauthorized',
+  'rate_limited',
+  'network',
+  'timeout',
+  'unsupported_registry',
+  'parse_error',
+  'registry_unavailable',
+];
+
+export const CHECK_ERROR_LABELS: Record<CheckErrorCode, string> = {
+  not_found: 'Image or tag not found',
+  unauthorized: 'Registry denied access (check credentials)',
+  rate_limited: 'Rate limited by the registry',
+  network: 'Could not reach the registry',
+  timeout: 'Registry timed out',
+  unsupported_registry: 'Registry not supported',
+  parse_error: 'Could not read the image reference or registry response',
+  registry_unavailable: 'Registry unavailable (skipped after repeated failures)',
+};
+
+export function isCheckErrorCode(value: unknown): value is CheckErrorCode {
+  return typeof value === 'string' && (CHECK_ERROR_CODES as string[]).includes(value);
+}
+
+// Code for an unsuccessful HTTP status from a registry or its API
+export function checkErrorCodeForStatus(status?: number): CheckErrorCode {
+  if (status === 404) return 'not_found';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status === 504) return 'timeout';
+  return 'network';
+}
+
+export class RegistryCheckError extends Error {
+  code: CheckErrorCode;
+
+  constructor(code: CheckErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = 'RegistryCheckError';
+  }
+}
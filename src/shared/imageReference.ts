@@ -0,0 +1,125 @@
+// Docker image reference parsing shared by the server and the client.
+// Follows the reference grammar used by the distribution spec (github.com/distribution/reference):
+//
+//   reference  := name [ ":" tag ] [ "@" digest ]
+//   name       := [domain '/'] path-component ['/' path-component]*
+//   domain     := host [':' port-number]
+//   tag        := /[\w][\w.-]{0,127}/
+//   digest     := algorithm ":" hex
+
+export interface ImageReference {
+  name: string;          // Name exactly as written, without tag or digest (e.g. "registry.local:5000/team/app")
+  domain: string;        // Normalized registry host including port (Docker Hub is "docker.io")
+  path: string;          // Normalized repository path (e.g. "library/nginx", "org/group/app")
+  tag?: string;
+  digest?: string;       // e.g. "sha256:0123..."
+}
+
+export const DEFAULT_DOMAIN = 'docker.io';
+const LEGACY_DEFAULT_DOMAINS = ['index.docker.io', 'registry-1.docker.io', 'registry.hub.docker.com'];
+const OFFICIAL_REPO_PREFIX = 'library/';
+const NAME_TOTAL_LENGTH_MAX = 255;
+
+const DOMAIN_COMPONENT = '(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])';
+const IPV6_ADDRESS = '\\[(?:[a-fA-F0-9:]+)\\]';
+const DOMAIN_REGEX = new RegExp(`^(?:${DOMAIN_COMPONENT}(?:\\.${DOMAIN_COMPONENT})*|${IPV6_ADDRESS})(?::[0-9]+)?$`);
+const PATH_COMPONENT_REGEX = /^[a-z0-9]+(?:(?:[._]|__|[-]+)[a-z0-9]+)*$/;
+const TAG_REGEX = /^[\w][\w.-]{0,127}$/;
+const DIGEST_REGEX = /^[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9a-fA-F]{32,}$/;
+
+export class ImageReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageReferenceError';
+  }
+}
+
+// The first path segment is a registry host when it looks like one: it has a dot or port, or is localhost.
+// Anything else (e.g. "user/app") is a Docker Hub namespace.
+function isDomainComponent(segment: string): boolean {
+  return segment.includes('.') || segment.includes(':') || segment === 'localhost' || segment !== segment.toLowerCase();
+}
+
+export function parseImageReference(reference: string): ImageReference {
+  const input = (reference || '').trim();
+  if (!input) {
+    throw new ImageReferenceError('Image reference cannot be empty');
+  }
+  if (/\s/.test(input)) {
+    throw new ImageReferenceError('Image reference cannot contain whitespace');
+  }
+
+  // Split off the digest first; it may contain ':' itself
+  let remainder = input;
+  let digest: string | undefined;
+  const atIndex = remainder.indexOf('@');
+  if (atIndex >= 0) {
+    digest = remainder.substring(atIndex + 1);
+    remainder = remainder.substring(0, atIndex);
+    if (!DIGEST_REGEX.test(digest)) {
+      throw new ImageReferenceError(`Invalid digest format: ${digest}`);
+    }
+  }
+
+  // A tag is a ':' after the last '/', so host ports are never mistaken for tags
+  let tag: string | undefined;
+  const lastColon = remainder.lastIndexOf(':');
+  if (lastColon > remainder.lastIndexOf('/')) {
+    tag = remainder.substring(lastColon + 1);
+    remainder = remainder.substring(0, lastColon);
+    if (!TAG_REGEX.test(tag)) {
+      throw new ImageReferenceError(`Invalid tag format: ${tag}`);
+    }
+  }
+
+  const name = remainder;
+  if (!name) {
+    throw new ImageReferenceError('Image name cannot be empty');
+  }
+  if (name.length > NAME_TOTAL_LENGTH_MAX) {
+    throw new ImageReferenceError(`Image name too long (max ${NAME_TOTAL_LENGTH_MAX} characters)`);
+  }
+
+  const segments = name.split('/');
+  let domain = DEFAULT_DOMAIN;
+  if (segments.length > 1 && isDomainComponent(segments[0])) {
+    domain = segments.shift()!;
+    if (!DOMAIN_REGEX.test(domain)) {
+      throw new ImageReferenceError(`Invalid registry domain: ${domain}`);
+    }
+  }
+
+  for (const segment of segments) {
+    if (!PATH_COMPONENT_REGEX.test(segment)) {
+      throw new ImageReferenceError(
+        segment === segment.toLowerCase()
+          ? `Invalid repository path component: "${segment}"`
+          : `Repository path must be lowercase: "${segment}"`
+      );
+    }
+  }
+
+  let path = segments.join('/');
+  if (LEGACY_DEFAULT_DOMAINS.includes(domain.toLowerCase())) {
+    domain = DEFAULT_DOMAIN;
+  }
+  if (domain === DEFAULT_DOMAIN && !path.includes('/')) {
+    path = `${OFFICIAL_REPO_PREFIX}${path}`;
+  }
+
+  return { name, domain, path, tag, digest };
+}
+
+// Non-throwing variant for form and import validation
+export function validateImageReference(reference: string): { isValid: boolean; error?: string; reference?: ImageReference } {
+  try {
+    return { isValid: true, reference: parseImageReference(reference) };
+  } catch (error) {
+    return { isValid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Format a reference back into its familiar string form (e.g. "nginx:1.27", "ghcr.io/org/app@sha256:...")
+export function formatImageReference(ref: Pick<ImageReference, 'name' | 'tag' | 'digest'>): string {
+  return `${ref.name}${ref.tag ? `:${ref.tag}` : ''}${ref.digest ? `@${ref.digest}` : ''}`;
+}
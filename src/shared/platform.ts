@@ -0,0 +1,136 @@
+// Platform (os/architecture/variant) parsing shared by the server and the client.
+// Normalization follows containerd's platforms package so "aarch64", "arm64" and "linux/arm64/v8" all compare equal.
+
+export interface Platform {
+  os: string;
+  architecture: string;
+  variant?: string;
+}
+
+export class PlatformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlatformError';
+  }
+}
+
+const KNOWN_OS = ['linux', 'windows', 'darwin', 'freebsd', 'netbsd', 'openbsd', 'solaris', 'illumos', 'aix', 'plan9'];
+const COMPONENT_REGEX = /^[a-z0-9_-]+$/;
+
+function normalizeOs(os: string): string {
+  const lower = os.toLowerCase();
+  return lower === 'macos' ? 'darwin' : lower;
+}
+
+// Map kernel/uname architecture names to OCI (GOARCH) names, with default variants dropped
+function normalizeArchitecture(architecture: string, variant?: string): { architecture: string; variant?: string } {
+  const arch = architecture.toLowerCase();
+  let v = (variant || '').toLowerCase();
+  if (/^\d+$/.test(v)) {
+    v = `v${v}`;
+  }
+
+  switch (arch) {
+    case 'i386':
+      return { architecture: '386' };
+    case 'x86_64':
+    case 'x86-64':
+    case 'amd64':
+      // amd64 microarchitecture levels (v2, v3, ...) are kept, v1 is the default
+      return { architecture: 'amd64', variant: v && v !== 'v1' ? v : undefined };
+    case 'aarch64':
+    case 'arm64':
+      return { architecture: 'arm64', variant: v && v !== 'v8' ? v : undefined };
+    case 'armhf':
+      return { architecture: 'arm', variant: 'v7' };
+    case 'armel':
+      return { architecture: 'arm', variant: 'v6' };
+    case 'armv5l':
+    case 'armv6l':
+    case 'armv7l':
+    case 'armv8l':
+      return { architecture: 'arm', variant: `v${arch.charAt(4)}` };
+    case 'arm':
+      return { architecture: 'arm', variant: v || 'v7' };
+    default:
+      return { architecture: arch, variant: v || undefined };
+  }
+}
+
+export function normalizePlatform(platform: Partial<Platform>): Platform {
+  const os = normalizeOs(platform.os || 'linux');
+  const { architecture, variant } = normalizeArchitecture(platform.architecture || '', platform.variant);
+  return variant ? { os, architecture, variant } : { os, architecture };
+}
+
+// Parse "os/arch[/variant]"; a single component is an architecture on linux (e.g. "arm64", "aarch64")
+export function parsePlatform(value: string): Platform {
+  const parts = (value || '').trim().toLowerCase().split('/');
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !COMPONENT_REGEX.test(part))) {
+    throw new PlatformError(`Invalid platform "${value}" (expected os/arch[/variant], e.g. linux/arm64)`);
+  }
+
+  if (parts.length === 1) {
+    if (KNOWN_OS.includes(parts[0])) {
+      throw new PlatformError(`Platform "${value}" is missing an architecture (e.g. ${parts[0]}/amd64)`);
+    }
+    return normalizePlatform({ os: 'linux', architecture: parts[0] });
+  }
+
+  return normalizePlatform({ os: parts[0], architecture: parts[1], variant: parts[2] });
+}
+
+export function formatPlatform(platform: Partial<Platform>): string {
+  return [platform.os || 'unknown', platform.architecture || 'unknown', platform.variant].filter(Boolean).join('/');
+}
+
+// Normalize a user-supplied platform string; empty input means "registry default"
+export function normalizePlatformString(value?: string | null): string | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  return formatPlatform(parsePlatform(value));
+}
+
+// Whether a manifest list entry's platform satisfies the requested target
+export function platformMatches(candidate: Partial<Platform> | undefined, target: Platform): boolean {
+  if (!candidate?.architecture) {
+    return false;
+  }
+  const normalized = normalizePlatform(candidate);
+  return normalized.os === target.os
+    && normalized.architecture === target.architecture
+    && (normalized.variant || '') === (target.variant || '');
+}
+
+// Compare two optional target platforms (undefined/empty means registry default)
+export function isSamePlatformTarget(a?: string | null, b?: string | null): boolean {
+  return (a || '') === (b || '');
+}
+
+// Platforms whose digest differs between two checks of a manifest list (rebuilt, added or removed)
+export function diffPlatformDigests(previous: Record<string, string>, current: Record<string, string>): string[] {
+  const platforms = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  return [...platforms].filter(platform => previous[platform] !== current[platform]).sort();
+}
+
+// Short label for display; the linux/ prefix is implied (e.g. "arm64", "arm/v7", "windows/amd64")
+export function platformLabel(platform: string): string {
+  return platform.startsWith('linux/') ? platform.substring('linux/'.length) : platform;
+}
+
+// Summarize a rebuild for notifications and the UI, e.g. "arm64 rebuilt, amd64 unchanged"
+export function describePlatformChanges(platformDigests: Record<string, string> | undefined, changedPlatforms: string[] | undefined): string {
+  if (!changedPlatforms?.length) {
+    return '';
+  }
+  const current = platformDigests || {};
+  const parts = changedPlatforms.map(platform =>
+    `${platformLabel(platform)} ${platform in current ? 'rebuilt' : 'removed'}`
+  );
+  const unchanged = Object.keys(current).filter(platform => !changedPlatforms.includes(platform)).sort();
+  if (unchanged.length > 0) {
+    parts.push(`${unchanged.map(platformLabel).join(', ')} unchanged`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,120 @@
+// Tag patterns restrict newer-tag suggestions to one variant family, e.g. "1.25.3-alpine" only moves to other "-alpine" tags.
+// A pattern is a regular expression when anchored ("^...$") or wrapped in slashes ("/.../"), otherwise a glob where
+// "*" matches any run of characters and "?" a single character (e.g. "*-alpine" or "16.*-bookworm").
+// Tags are ordered by their capture groups (each "*" in a glob is one), compared numerically where possible.
+
+export class TagPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagPatternError';
+  }
+}
+
+const MAX_PATTERN_LENGTH = 200;
+
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (const char of glob) {
+    if (char === '*') {
+      source += '(.+?)';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return `^${source}$`;
+}
+
+export function isRegexTagPattern(pattern: string): boolean {
+  return pattern.startsWith('^') || pattern.endsWith('$') || (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/'));
+}
+
+export function compileTagPattern(pattern: string): RegExp {
+  const trimmed = (pattern || '').trim();
+  if (!trimmed) {
+    throw new TagPatternError('Tag pattern is empty');
+  }
+  if (trimmed.length > MAX_PATTERN_LENGTH) {
+    throw new TagPatternError(`Tag pattern is too long (max ${MAX_PATTERN_LENGTH} characters)`);
+  }
+
+  let source = trimmed;
+  if (trimmed.startsWith('/') && trimmed.endsWith('/') && trimmed.length > 1) {
+    source = trimmed.slice(1, -1);
+  } else if (!isRegexTagPattern(trimmed)) {
+    source = globToRegExpSource(trimmed);
+  }
+
+  try {
+    return new RegExp(source);
+  } catch (error) {
+    throw new TagPatternError(`Invalid tag pattern "${trimmed}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Validate a user-supplied pattern; empty input means "no pattern"
+export function normalizeTagPattern(value?: string | null): string | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  compileTagPattern(value);
+  return value.trim();
+}
+
+// Sort keys for a tag: its capture groups, or the whole tag when the pattern has none
+function matchKeys(regex: RegExp, tag: string): string[] | null {
+  const match = tag.match(regex);
+  if (!match) return null;
+  const groups = match.slice(1).filter((group): group is string => group !== undefined);
+  return groups.length > 0 ? groups : [match[0]];
+}
+
+// Natural comparison so "10" sorts after "9" and "1.10" after "1.9"
+function compareKey(a: string, b: string): number {
+  const aParts = a.split(/(\d+)/);
+  const bParts = b.split(/(\d+)/);
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    const x = aParts[i];
+    const y = bParts[i];
+    if (x === y) continue;
+    if (/^\d+$/.test(x) && /^\d+$/.test(y)) {
+      const diff = Number(x) - Number(y);
+      if (diff !== 0) return diff;
+      continue;
+    }
+    return x < y ? -1 : 1;
+  }
+  return aParts.length - bParts.length;
+}
+
+function compareKeys(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const diff = compareKey(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return a.length - b.length;
+}
+
+// Whether candidate matches the pattern and orders after current (a current tag outside the pattern is always older)
+export function isNewerMatchingTag(pattern: string, candidate: string, current: string): boolean {
+  const regex = compileTagPattern(pattern);
+  const candidateKeys = matchKeys(regex, candidate);
+  if (!candidateKeys) return false;
+  const currentKeys = matchKeys(regex, current);
+  return !currentKeys || compareKeys(candidateKeys, currentKeys) > 0;
+}
+
+// Highest tag matching the pattern; null when no tag matches
+export function findLatestMatchingTag(tags: string[], pattern: string): string | null {
+  const regex = compileTagPattern(pattern);
+  let best: { tag: string; keys: string[] } | null = null;
+  for (const tag of tags) {
+    const keys = matchKeys(regex, tag);
+    if (!keys) continue;
+    if (!best || compareKeys(keys, best.keys) > 0) {
+      best = { tag, keys };
+    }
+  }
+  return best ? best.tag : null;
+}
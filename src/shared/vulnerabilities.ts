@@ -0,0 +1,35 @@
+// Vulnerability counts per severity from a scanner, and how an update changes them ("Update fixes 3 critical CVEs").
+
+export type VulnerabilitySeverity = 'critical' | 'high' | 'medium' | 'low' | 'unknown';
+
+export const VULNERABILITY_SEVERITIES: VulnerabilitySeverity[] = ['critical', 'high', 'medium', 'low', 'unknown'];
+
+export type VulnerabilityCounts = Record<VulnerabilitySeverity, number>;
+
+export function emptyVulnerabilityCounts(): VulnerabilityCounts {
+  return { critical: 0, high: 0, medium: 0, low: 0, unknown: 0 };
+}
+
+// Severity as scanners spell it (e.g. Trivy's "CRITICAL"); anything unrecognized counts as unknown
+export function parseSeverity(value: unknown): VulnerabilitySeverity {
+  const severity = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return (VULNERABILITY_SEVERITIES as string[]).includes(severity) ? severity as VulnerabilitySeverity : 'unknown';
+}
+
+const joinWithAnd = (parts: string[]) => parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+
+// Critical and high CVEs the latest digest fixes or adds compared to the monitored one, e.g.
+// "Update fixes 3 critical CVEs and adds 1 high CVE"; null when those counts are unchanged
+export function describeVulnerabilityChange(current: VulnerabilityCounts, latest: VulnerabilityCounts): string | null {
+  const phrase = (verb: string, changes: Array<[VulnerabilitySeverity, number]>) => {
+    if (changes.length === 0) return null;
+    const total = changes.reduce((sum, [, count]) => sum + count, 0);
+    return `${verb} ${joinWithAnd(changes.map(([severity, count]) => `${count} ${severity}`))} CVE${total === 1 ? '' : 's'}`;
+  };
+
+  const severities: VulnerabilitySeverity[] = ['critical', 'high'];
+  const fixed = severities.map(s => [s, current[s] - latest[s]] as [VulnerabilitySeverity, number]).filter(([, count]) => count > 0);
+  const added = severities.map(s => [s, latest[s] - current[s]] as [VulnerabilitySeverity, number]).filter(([, count]) => count > 0);
+  const phrases = [phrase('fixes', fixed), phrase('adds', added)].filter((p): p is string => !!p);
+  return phrases.length > 0 ? `Update ${phrases.join(' and ')}` : null;
+}